@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import rawCardsData from "@/data/cards.json";
+import { abilityOf, SKILL_COST, ULT_COST } from "@/lib/game/abilities";
 
 /** Next.js route config */
 export const runtime = "nodejs";
@@ -24,8 +25,13 @@ export type CardRow = {
   /** เพิ่มฟิลด์ id/char_id สำหรับอ้างอิงใน DB */
   id?: number | null;       // ใช้กับ supports/events
   char_id?: number | null;  // ใช้กับ characters
+  /** คำอธิบายสกิล/อัลติจาก ability registry (เฉพาะ characters) */
+  skill?: AbilityText | null;
+  ult?: AbilityText | null;
 };
 
+export type AbilityText = { name: string; text: string; cost: number };
+
 /* ==== JSON schema ==== */
 type CharacterJSON = {
   char_id: number;
@@ -79,6 +85,7 @@ function loadAllFromJSON(): Record<string, CardRow> {
 
   for (const c of safeArr<CharacterJSON>(cardsData.characters)) {
     const name = (c.name ?? c.code).trim();
+    const ab = abilityOf(c.abilityCode);
     map[c.code] = {
       code: c.code,
       name,
@@ -93,6 +100,8 @@ function loadAllFromJSON(): Record<string, CardRow> {
       image: img(name),
       id: null,
       char_id: Number(c.char_id),
+      skill: { name: ab.skill.name, text: ab.skill.text, cost: SKILL_COST },
+      ult: { name: ab.ult.name, text: ab.ult.text, cost: ULT_COST },
     };
   }
 
@@ -1,6 +1,7 @@
 // src/app/api/deck/route.ts
 import { NextResponse } from "next/server";
 import { supa } from "@/lib/supabase";
+import { RESERVE_CARD_BASE } from "@/lib/game/cards";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,6 +12,8 @@ type SaveBody = {
   name: string;
   /** ตัวละคร 0..12 (รองรับ 0 = GOD), สูงสุด 3 ใบ */
   characters: number[];
+  /** ตัวละครสำรองในกองการ์ด (ลงสนามจากมือ) ห้ามซ้ำกับ characters, นับรวมใน 20 ใบ */
+  reserves?: number[];
   /**
    * การ์ดซัพพอร์ต/อีเวนต์ 1..3 (ตรงกับ inventory card_1..card_3)
    * หมายเหตุ: ถ้า client ส่งเป็น 101..103 จะ map เป็น 1..3 ให้
@@ -59,6 +62,7 @@ function toInt(v: unknown): number {
  *   deckId: number | null,
  *   name: string,
  *   characters: number[],                      // 0..12 (ยาว ≤ 3)
+ *   reserves: number[],                        // ตัวละครสำรองในกองการ์ด
  *   cards: { cardId: 1|2|3; count: number }[]  // เฉพาะที่ count > 0
  * }
  */
@@ -91,6 +95,7 @@ export async function GET(req: Request) {
         deckId: null,
         name: "My Deck",
         characters: [] as number[],
+        reserves: [] as number[],
         cards: [] as { cardId: number; count: number }[],
       });
     }
@@ -103,10 +108,16 @@ export async function GET(req: Request) {
       .filter((n) => Number.isFinite(n) && n >= 0);
 
     // others: สรุปเป็น count ต่อชนิด (1/2/3)
+    // ตัวละครสำรองเก็บเป็น RESERVE_CARD_BASE + char_id
     const counts: Record<Slot, number> = { 1: 0, 2: 0, 3: 0 };
+    const reserves: number[] = [];
     const anyRow = row as Record<string, unknown>;
     for (let i = 1; i <= 20; i++) {
       const v = toInt(anyRow[`card${i}`]);
+      if (v >= RESERVE_CARD_BASE) {
+        reserves.push(v - RESERVE_CARD_BASE);
+        continue;
+      }
       const slot = idToSlot(v);
       if (slot) counts[slot] = (counts[slot] ?? 0) + 1;
     }
@@ -119,6 +130,7 @@ export async function GET(req: Request) {
       deckId: row.id,
       name: String(row.name ?? "My Deck"),
       characters,
+      reserves,
       cards,
     });
   } catch (err: unknown) {
@@ -148,7 +160,8 @@ export async function POST(req: Request) {
   if (!Array.isArray(body.characters) || body.characters.length > 3) {
     return NextResponse.json({ error: "characters > 3" }, { status: 400 });
   }
-  const totalOthers = body.cards.reduce((a, b) => a + (b.count || 0), 0);
+  const reserves = Array.isArray(body.reserves) ? body.reserves.map(toInt) : [];
+  const totalOthers = body.cards.reduce((a, b) => a + (b.count || 0), 0) + reserves.length;
   if (totalOthers > 20) {
     return NextResponse.json({ error: "support/events > 20" }, { status: 400 });
   }
@@ -172,11 +185,11 @@ export async function POST(req: Request) {
   const stock = inv.data as Record<string, unknown>;
 
   // ตัวละคร: ห้ามซ้ำ + ต้องอยู่ในช่วง 0..12
-  const uniq = new Set(body.characters);
-  if (uniq.size !== body.characters.length) {
+  const uniq = new Set([...body.characters, ...reserves]);
+  if (uniq.size !== body.characters.length + reserves.length) {
     return NextResponse.json({ error: "duplicate characters" }, { status: 400 });
   }
-  for (const cid of body.characters) {
+  for (const cid of [...body.characters, ...reserves]) {
     if (cid < 0 || cid > 12) {
       return NextResponse.json({ error: `invalid character id ${cid}` }, { status: 400 });
     }
@@ -215,13 +228,14 @@ export async function POST(req: Request) {
   // เตรียมข้อมูลลง decks
   const chars3: (number | null)[] = padToNumNull(body.characters.slice(0, 3), 3);
 
-  // flatten การ์ดอื่น → เก็บ 1..3 เสมอ
+  // flatten การ์ดอื่น → เก็บ 1..3 เสมอ (ตัวละครสำรองต่อท้าย)
   const flatSlots: number[] = [];
   for (const it of body.cards) {
     const slot = idToSlot(Number(it.cardId));
     if (!slot) continue;
     for (let i = 0; i < it.count; i++) flatSlots.push(slot);
   }
+  for (const cid of reserves) flatSlots.push(RESERVE_CARD_BASE + cid);
   const others20: (number | null)[] = padToNumNull(flatSlots.slice(0, 20), 20);
 
   // หา active deck ของ user
@@ -1,7 +1,27 @@
 // src/app/api/game/route.ts
 import { NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import cardsDataJson from "@/data/cards.json";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { GUEST_PREFIX, issueGuestToken, verifyGuestToken } from "@/lib/guest";
+import { onRoomVersion, publishRoomVersion } from "@/lib/roomFeed";
+import { botDueAt, botPlayer, dueBotMove, isBot } from "@/lib/game/bot";
+import { allChars, allEvents, allSupports, RESERVE_CARD_BASE } from "@/lib/game/cards";
+import { deadlineOf, enforceClock, settleClock } from "@/lib/game/clock";
+import { applyAction, freshRoom } from "@/lib/game/engine";
+import { matchIdOf, replayOf, type Replay } from "@/lib/game/replay";
+import { randomSeed, seedRng } from "@/lib/game/rng";
+import { DEFAULT_RULES } from "@/lib/game/rules";
+import { spectatorView, viewFor } from "@/lib/game/view";
+import type {
+  AttackMode,
+  DeckLoadout,
+  DicePool,
+  GameAction,
+  PlayerInfo,
+  RoomState,
+  Side,
+} from "@/lib/game/types";
 
 export const runtime = "nodejs";
 
@@ -14,65 +34,7 @@ const supa = DB_ON
   ? createClient(SUPA_URL, SUPA_SERVICE_ROLE, { auth: { persistSession: false } })
   : null;
 
-/* ========================= Cards types ========================= */
-type CharacterCard = {
-  char_id: number;
-  code: string;
-  name: string;
-  element: string;
-  attack: number;
-  hp: number;
-  cost: number;
-  abilityCode: string;
-  art: string;
-};
-type SupportCard = {
-  id: number;
-  code: string;
-  name: string;
-  element: string;
-  cost: number;
-  text: string;
-  art: string;
-};
-type EventCard = {
-  id: number;
-  code: string;
-  name: string;
-  element: string;
-  cost: number;
-  text: string;
-  art: string;
-};
-type CardsData = { characters: CharacterCard[]; supports: SupportCard[]; events: EventCard[] };
-const cardsData = cardsDataJson as CardsData;
-
-/* ========================= Game/Room types ========================= */
-export type Side = "p1" | "p2";
-type DicePool = Record<string, number>;
-type UnitVM = { code: string; element: string; attack: number; hp: number; gauge?: number };
-type PlayerInfo = { userId: string; name?: string | null; avatar?: string | null };
-
-type RoomState = {
-  id: string;
-  mode: "lobby" | "play";
-  players: Partial<Record<Side, PlayerInfo>>;
-  ready: Record<Side, boolean>;
-  coin: { decided: boolean; winner?: Side };
-  coinAck: Record<Side, boolean>;
-  phaseNo: number;
-  turn: Side;
-  phaseActor: Side;
-  endTurned: Record<Side, boolean>;
-  phaseEndOrder: Side[];
-  hero: Record<Side, number>;
-  board: Record<Side, UnitVM[]>;
-  hand: Record<Side, string[]>;
-  deck: Record<Side, string[]>;
-  dice: Record<Side, DicePool>;
-  warnNoDeck?: string[];
-};
-
+/* ========================= Types ========================= */
 type RoomRow = { id: string; version: number; state_json: unknown; updated_at?: string | null };
 type UserRow = { id: number; username: string | null; discord_id: string | null; email?: string | null };
 
@@ -90,102 +52,97 @@ type DeckRow = {
   card_char3?: number | null;
 } & DeckDynamic;
 
-/* ========================= Helpers ========================= */
-const ELEMENTS = [
-  "Pyro",
-  "Hydro",
-  "Cryo",
-  "Electro",
-  "Geo",
-  "Anemo",
-  "Quantum",
-  "Imaginary",
-  "Neutral",
-  "Infinite",
-] as const;
-type ElementKind = (typeof ELEMENTS)[number];
-
-function shuffle<T>(arr: T[]) {
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = (Math.random() * (i + 1)) | 0;
-    [arr[i], arr[j]] = [arr[j], arr[i]];
+/** carries an HTTP status through to the error response */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
   }
-  return arr;
 }
-const allChars = (): CharacterCard[] => cardsData.characters;
-const allSupports = (): SupportCard[] => cardsData.supports;
-const allEvents = (): EventCard[] => cardsData.events;
 
-function toUnit(code: string): UnitVM | null {
-  const ch = allChars().find((c) => c.code === code);
-  if (!ch) return null;
-  return { code: ch.code, element: ch.element, attack: ch.attack, hp: ch.hp, gauge: 0 };
+/* ========================= Identity ========================= */
+/** header the client sends its signed guest token in */
+const GUEST_HEADER = "x-nof-guest";
+
+/**
+ * Who is calling: the Discord session first, then a signed guest token.
+ * Guests have no profile, so their display name comes from the body.
+ */
+async function identify(req: Request, shown?: PlayerInfo): Promise<PlayerInfo | null> {
+  const session = await getServerSession(authOptions);
+  const uid = session?.user?.id;
+  if (uid) {
+    return { userId: String(uid), name: session.user?.name ?? null, avatar: session.user?.image ?? null };
+  }
+  const guestId = verifyGuestToken(req.headers.get(GUEST_HEADER));
+  if (!guestId) return null;
+  return { userId: guestId, name: shown?.name ?? null, avatar: null };
 }
+
+/* ========================= Helpers ========================= */
 function sideOf(room: RoomState, userId: string): Side | null {
   if (room.players.p1?.userId === userId) return "p1";
   if (room.players.p2?.userId === userId) return "p2";
   return null;
 }
-function draw(room: RoomState, side: Side, n: number) {
-  for (let i = 0; i < n; i++) {
-    const code = room.deck[side].shift();
-    if (!code) break;
-    room.hand[side].push(code);
-  }
+function actorOf(room: RoomState, userId: string): Side {
+  const s = sideOf(room, userId);
+  if (!s) throw new Error("Not in room");
+  return s;
 }
-function addDie(poolD: DicePool, el: ElementKind, n = 1) {
-  poolD[el] = (poolD[el] ?? 0) + n;
-}
-function spendAny(poolD: DicePool, n: number): boolean {
-  const total = Object.values(poolD).reduce((a, b) => a + (b ?? 0), 0);
-  if (total < n) return false;
-  let remain = n;
-  const inf = Math.min(poolD.Infinite ?? 0, remain);
-  if (inf > 0) {
-    poolD.Infinite = (poolD.Infinite ?? 0) - inf;
-    remain -= inf;
-  }
-  while (remain > 0) {
-    const k = Object.keys(poolD).find((x) => (poolD[x] ?? 0) > 0) as ElementKind | undefined;
-    if (!k) return false;
-    poolD[k] = (poolD[k] ?? 0) - 1;
-    remain--;
-  }
-  return true;
+const MAX_SPECTATORS = 50;
+/** longest spectator delay a host can pick, in seconds */
+const MAX_SPECTATOR_DELAY = 300;
+
+/** recent client action ids kept per room for dedupe */
+const ACTION_IDS_KEPT = 32;
+/**
+ * Actions checked against the client's room version: stale when the game (gameVersion) moved
+ * past it, not when only spectators came or went. Ready, coin, mulligan and dice are made by
+ * both sides at once and only touch the caller's own choice, so they skip it.
+ */
+const TURN_ACTIONS = new Set(["endTurn", "endPhase", "playCard", "discardForInfinite", "switchActive", "combat"]);
+
+/** bot moves made in one load, e.g. coin, mulligan and dice while the shared clock runs */
+const BOT_MOVES_PER_LOAD = 4;
+
+/** the engine ignored an action: no events, and nothing but the match record moved */
+function ignored(room: RoomState, next: RoomState, events: unknown[]): boolean {
+  return !events.length && JSON.stringify({ ...room, record: null }) === JSON.stringify({ ...next, record: null });
 }
-function spendElement(poolD: DicePool, el: ElementKind, n: number): boolean {
-  const have = (poolD[el] ?? 0) + (poolD.Infinite ?? 0);
-  if (have < n) return false;
-  const useEl = Math.min(poolD[el] ?? 0, n);
-  poolD[el] = (poolD[el] ?? 0) - useEl;
-  const remain = n - useEl;
-  if (remain > 0) poolD.Infinite = (poolD.Infinite ?? 0) - remain;
-  return true;
+
+/**
+ * Runs one engine action and restamps the turn clock; the route only persists the result.
+ * An ignored action hands back `room` itself, so it neither saves nor restarts the clock.
+ */
+function run(room: RoomState, action: GameAction): RoomState {
+  const { state: next, events } = applyAction(room, action);
+  if (ignored(room, next, events)) return room;
+  settleClock(room, next, "side" in action ? action.side : null, Date.now());
+  return next;
+}
+
+/** wall-clock time of each recorded action not stamped yet, for the delayed spectator feed */
+function stampActionTimes(room: RoomState) {
+  if (!room.record) return;
+  const at = room.record.at ?? [];
+  while (at.length < room.record.actions.length) at.push(Date.now());
+  room.record.at = at;
 }
 
 /* ========================= Room persistence ========================= */
-function freshRoom(id: string): RoomState {
-  return {
-    id: id.toUpperCase(),
-    mode: "lobby",
-    players: {},
-    ready: { p1: false, p2: false },
-    coin: { decided: false },
-    coinAck: { p1: false, p2: false },
-    phaseNo: 0,
-    turn: "p1",
-    phaseActor: "p1",
-    endTurned: { p1: false, p2: false },
-    phaseEndOrder: [],
-    hero: { p1: 30, p2: 30 },
-    board: { p1: [], p2: [] },
-    hand: { p1: [], p2: [] },
-    deck: { p1: [], p2: [] },
-    dice: { p1: {}, p2: {} },
+function memRooms(): Map<string, { version: number; state: RoomState }> {
+  const g = globalThis as typeof globalThis & {
+    __NOF_STORE__?: Map<string, { version: number; state: RoomState }>;
   };
+  if (!g.__NOF_STORE__) g.__NOF_STORE__ = new Map();
+  return g.__NOF_STORE__;
 }
 
-async function loadRoom(roomId: string): Promise<{ state: RoomState; version: number }> {
+/** the saved room, or null when there is none; never creates one */
+async function findRoom(roomId: string): Promise<{ state: RoomState; version: number } | null> {
   const id = roomId.toUpperCase();
 
   if (DB_ON && supa) {
@@ -196,36 +153,52 @@ async function loadRoom(roomId: string): Promise<{ state: RoomState; version: nu
         .eq("id", id)
         .maybeSingle();
       if (error) throw error;
-      if (data) {
-        const row = data as unknown as RoomRow;
-        const state = row.state_json as RoomState;
-        return { state, version: Number(row.version) };
-      }
-      const state = freshRoom(id);
+      if (!data) return null;
+      const row = data as unknown as RoomRow;
+      const state = row.state_json as RoomState;
+      // rooms saved by older builds get the newer fields on first load
+      if (!state.rng) state.rng = seedRng(randomSeed());
+      if (!state.log) state.log = [];
+      if (!state.supports) state.supports = { p1: [], p2: [] };
+      if (!state.active) state.active = { p1: 0, p2: 0 };
+      state.rules = { ...DEFAULT_RULES, ...state.rules };
+      if (!state.timeouts) state.timeouts = { p1: 0, p2: 0 };
+      if (!state.fatigue) state.fatigue = { p1: 0, p2: 0 };
+      if (!state.spectators) state.spectators = [];
+      if (!state.series) state.series = { p1: 0, p2: 0 };
+      return { state, version: Number(row.version) };
+    } catch {
+      // fall back to in-memory
+    }
+  }
+
+  const local = memRooms().get(id);
+  return local ? { state: local.state, version: local.version } : null;
+}
+
+/** the saved room, or a fresh lobby saved under `roomId` */
+async function loadRoom(roomId: string): Promise<{ state: RoomState; version: number }> {
+  const found = await findRoom(roomId);
+  if (found) return found;
+
+  const id = roomId.toUpperCase();
+  const state = freshRoom(id, seedRng(randomSeed()));
+  if (DB_ON && supa) {
+    try {
       await supa.from("rooms").insert({ id, version: 1, state_json: state });
       return { state, version: 1 };
     } catch {
       // fall back to in-memory
     }
   }
-
-  const g = globalThis as typeof globalThis & {
-    __NOF_STORE__?: Map<string, { version: number; state: RoomState }>;
-  };
-  if (!g.__NOF_STORE__) g.__NOF_STORE__ = new Map();
-  const local = g.__NOF_STORE__.get(id);
-  if (local) return { state: local.state, version: local.version };
-  const state = freshRoom(id);
-  g.__NOF_STORE__.set(id, { version: 1, state });
+  memRooms().set(id, { version: 1, state });
   return { state, version: 1 };
 }
 
-async function saveRoom(
-  roomId: string,
-  nextState: RoomState,
-  prevVersion: number,
-  retry = 0
-): Promise<number> {
+/** the room moved on since it was loaded; the caller's action was computed on a stale state */
+const CONFLICT = "Room was updated by another action; refresh and try again";
+
+async function saveRoom(roomId: string, nextState: RoomState, prevVersion: number): Promise<number> {
   const id = roomId.toUpperCase();
 
   if (DB_ON && supa) {
@@ -244,32 +217,115 @@ async function saveRoom(
       if (error) throw error;
       if (data) {
         const row = data as unknown as Pick<RoomRow, "version">;
+        publishRoomVersion(id, Number(row.version));
         return Number(row.version);
       }
 
-      if (retry >= 2) throw new Error("Conflict: room updated concurrently");
-      const cur = await supa.from("rooms").select("version").eq("id", id).maybeSingle();
-      const curVer = Number(((cur.data as unknown as RoomRow | null)?.version ?? 1));
-      return saveRoom(id, nextState, curVer, retry + 1);
-    } catch {
+      // writing anyway would drop whatever the other action changed
+      throw new HttpError(409, CONFLICT);
+    } catch (e) {
+      if (e instanceof HttpError) throw e;
       // fall back to in-memory
     }
   }
 
-  const g = globalThis as typeof globalThis & {
-    __NOF_STORE__?: Map<string, { version: number; state: RoomState }>;
-  };
-  if (!g.__NOF_STORE__) g.__NOF_STORE__ = new Map();
-  const cur = g.__NOF_STORE__.get(id);
+  const cur = memRooms().get(id);
   const curVer = cur?.version ?? 1;
-  if (cur && curVer !== prevVersion) {
-    if (retry >= 2) throw new Error("Conflict (local)");
-    return saveRoom(id, nextState, curVer, retry + 1);
-  }
-  g.__NOF_STORE__.set(id, { version: prevVersion + 1, state: nextState });
+  if (cur && curVer !== prevVersion) throw new HttpError(409, CONFLICT);
+  memRooms().set(id, { version: prevVersion + 1, state: nextState });
+  publishRoomVersion(id, prevVersion + 1);
   return prevVersion + 1;
 }
 
+/* ========================= Long poll ========================= */
+/** longest a getState with `since` is held open (kept under common serverless limits) */
+const LONG_POLL_MS = 20_000;
+
+/** resolves true once the room's version moves past `since`, false when `until` (epoch ms) comes first */
+function waitForChange(roomId: string, since: number, until: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    let done = false;
+    const finish = (moved: boolean) => {
+      if (done) return;
+      done = true;
+      off();
+      clearTimeout(timer);
+      resolve(moved);
+    };
+    // roomFeed hears saves from other instances too (it polls rooms.version when Supabase is on)
+    const off = onRoomVersion(roomId, (v) => v > since && finish(true));
+    const timer = setTimeout(() => finish(false), Math.max(0, until - Date.now()));
+  });
+}
+
+/* ========================= Match records ========================= */
+/** finished-match replays kept in memory when there is no DB (oldest dropped first) */
+const REPLAYS_KEPT = 500;
+
+function memReplays(): Map<string, Replay> {
+  const g = globalThis as typeof globalThis & { __NOF_REPLAYS__?: Map<string, Replay> };
+  if (!g.__NOF_REPLAYS__) g.__NOF_REPLAYS__ = new Map();
+  return g.__NOF_REPLAYS__;
+}
+
+/**
+ * Writes one row to `matches` when a room finishes:
+ * match_id, room_id, p1_user, p2_user, p1_deck, p2_deck (json loadouts), winner, reason,
+ * phases, started_at, ended_at, duration_ms, replay_json (the replay, so a rematch can't lose it).
+ */
+async function recordMatch(room: RoomState): Promise<void> {
+  if (!room.result) return;
+  const replay = replayOf(room);
+  if (!DB_ON || !supa) {
+    const kept = memReplays();
+    kept.set(matchIdOf(room), replay);
+    if (kept.size > REPLAYS_KEPT) kept.delete(kept.keys().next().value!);
+    return;
+  }
+  const startedAt = room.startedAt ?? null;
+  const endedAt = room.endedAt ?? Date.now();
+  try {
+    const { error } = await supa.from("matches").insert({
+      match_id: matchIdOf(room),
+      room_id: room.id,
+      p1_user: room.players.p1?.userId ?? null,
+      p2_user: room.players.p2?.userId ?? null,
+      p1_deck: room.loadout?.p1 ?? null,
+      p2_deck: room.loadout?.p2 ?? null,
+      winner: room.result.winner,
+      reason: room.result.reason,
+      phases: room.phaseNo,
+      started_at: startedAt ? new Date(startedAt).toISOString() : null,
+      ended_at: new Date(endedAt).toISOString(),
+      duration_ms: startedAt ? endedAt - startedAt : null,
+      replay_json: replay,
+    });
+    if (error) throw error;
+  } catch (err) {
+    console.warn("[api/game] recordMatch failed:", err);
+  }
+}
+
+/** a finished match's replay by match id; the room's own record covers matches saved before replay_json */
+async function loadReplay(matchId: string): Promise<Replay | null> {
+  if (DB_ON && supa) {
+    try {
+      const { data, error } = await supa.from("matches").select("replay_json").eq("match_id", matchId).maybeSingle();
+      if (error) throw error;
+      const replay = (data as { replay_json?: Replay | null } | null)?.replay_json;
+      if (replay) return replay;
+    } catch {
+      // fall back to the room
+    }
+  } else {
+    const kept = memReplays().get(matchId);
+    if (kept) return kept;
+  }
+  const found = await findRoom(matchId.replace(/-\d+$/, ""));
+  const state = found?.state;
+  return state?.mode === "finished" && matchIdOf(state) === matchId ? replayOf(state) : null;
+}
+
 /* ========================= Optional DB helpers ========================= */
 async function qUserBy(
   key: "discord_id" | "email" | "username",
@@ -302,9 +358,7 @@ async function findUserRowByAny(key: string, display?: string | null): Promise<U
   const u = await qUserBy("username", name);
   return u ?? null;
 }
-async function loadDeckFromDB(
-  userId: number
-): Promise<{ chars: string[]; deck: string[] } | null> {
+async function loadDeckFromDB(userId: number): Promise<DeckLoadout | null> {
   if (!DB_ON || !supa) return null;
   const { data, error } = await supa.from("decks").select("*").eq("user_id", userId).maybeSingle();
   if (error || !data) return null;
@@ -327,233 +381,73 @@ async function loadDeckFromDB(
     const val = row[key];
     if (val == null) continue;
     const id = Number(val);
-    const code = supById.get(id) ?? evtById.get(id) ?? null;
+    // reserve characters ride in the card slots, offset by RESERVE_CARD_BASE
+    const code =
+      id >= RESERVE_CARD_BASE ? charIdToCode.get(id - RESERVE_CARD_BASE) : (supById.get(id) ?? evtById.get(id));
     if (code) deck.push(code);
   }
-  return { chars, deck: shuffle(deck) };
+  return { chars, deck };
 }
 
-/* ========================= Game ops ========================= */
-async function startGame(room: RoomState) {
-  room.mode = "play";
-  room.phaseNo = 1;
-  room.endTurned = { p1: false, p2: false };
-  room.phaseEndOrder = [];
-
-  const setup = async (side: Side) => {
-    room.board[side] = [];
-    room.hand[side] = [];
-    room.deck[side] = [];
-
+/* ========================= Game setup ========================= */
+/** resolves each seated player's saved deck; null falls back to a random loadout in the engine */
+async function loadDecks(room: RoomState): Promise<Record<Side, DeckLoadout | null>> {
+  const load = async (side: Side): Promise<DeckLoadout | null> => {
     const p = room.players[side];
-    let boardCodes: string[] = [];
-    let deckCodes: string[] = [];
-
-    if (p) {
-      const u = await findUserRowByAny(p.userId, p.name ?? null);
-      if (u) {
-        const fromDb = await loadDeckFromDB(u.id);
-        if (fromDb) {
-          boardCodes = fromDb.chars.slice(0, 3);
-          deckCodes = fromDb.deck.slice();
-        }
-      }
-    }
-
-    if (!boardCodes.length) {
-      const candidates = allChars().map((c) => c.code);
-      shuffle(candidates);
-      boardCodes = candidates.slice(0, 3);
-    }
-    if (!deckCodes.length) {
-      const supports = allSupports().map((c) => c.code);
-      const events = allEvents().map((c) => c.code);
-      deckCodes = shuffle([...supports, ...events, ...supports, ...events]);
-    }
-
-    room.board[side] = boardCodes.map((c) => toUnit(c)!).filter(Boolean);
-    room.deck[side] = deckCodes;
-    draw(room, side, 5);
+    if (!p || isBot(p)) return null;
+    const u = await findUserRowByAny(p.userId, p.name ?? null);
+    if (!u) return null;
+    return loadDeckFromDB(u.id);
   };
-
-  await Promise.all([setup("p1"), setup("p2")]);
-
-  room.dice.p1 = {};
-  room.dice.p2 = {};
-  for (let i = 0; i < 10; i++) {
-    const el = ELEMENTS[(Math.random() * (ELEMENTS.length - 1)) | 0];
-    addDie(room.dice.p1, el);
-    addDie(room.dice.p2, el);
-  }
-
-  const win: Side = Math.random() < 0.5 ? "p1" : "p2";
-  room.coin = { decided: true, winner: win };
-  room.coinAck = { p1: false, p2: false };
-  room.turn = win;
-  room.phaseActor = win;
+  const [p1, p2] = await Promise.all([load("p1"), load("p2")]);
+  return { p1, p2 };
 }
 
-function stateForClient(room: RoomState, currentUserId?: string) {
-  const you: Side | null = currentUserId ? sideOf(room, currentUserId) : null;
-  return {
-    mode: room.mode,
-    players: {
-      p1: room.players.p1
-        ? { name: room.players.p1.name ?? "Host", avatar: room.players.p1.avatar ?? null }
-        : undefined,
-      p2: room.players.p2
-        ? { name: room.players.p2.name ?? "Player", avatar: room.players.p2.avatar ?? null }
-        : undefined,
-    },
-    coin: room.coin,
-    coinAck: room.coinAck,
-    turn: room.turn,
-    phaseNo: room.phaseNo,
-    phaseActor: room.phaseActor,
-    endTurned: room.endTurned,
-    hero: room.hero,
-    dice: room.dice,
-    board: room.board,
-    hand: room.hand,
-    ready: room.ready,
-    you: you ?? undefined,
-    warnNoDeck: room.warnNoDeck,
-  };
+/** starts the match once both seats are ready (first ready-up, or an accepted rematch) */
+async function startIfReady(room: RoomState): Promise<RoomState> {
+  if (room.mode !== "lobby" || !(room.ready.p1 && room.ready.p2)) return room;
+  const next = run(room, { type: "start", decks: await loadDecks(room), first: room.nextFirst });
+  next.startedAt = Date.now();
+  return next;
 }
 
-function ackCoin(room: RoomState, userId: string) {
-  const s = sideOf(room, userId);
-  if (!s) return;
-  if (!room.coin.decided) return;
-  room.coinAck[s] = true;
-  if (room.coinAck.p1 && room.coinAck.p2) room.coin.decided = false;
-}
-function endTurn(room: RoomState, userId: string) {
-  const s = sideOf(room, userId);
-  if (!s) throw new Error("Not in room");
-  if (room.turn !== s) return;
-  room.turn = s === "p1" ? "p2" : "p1";
-  room.phaseActor = room.turn;
-}
-function endPhase(room: RoomState, userId: string) {
-  const s = sideOf(room, userId);
-  if (!s) throw new Error("Not in room");
-  if (room.phaseActor !== s) return;
-  if (room.endTurned[s]) return;
-
-  room.endTurned[s] = true;
-  if (!room.phaseEndOrder.includes(s)) room.phaseEndOrder.push(s);
-
-  if (!(room.endTurned.p1 && room.endTurned.p2)) {
-    room.turn = s === "p1" ? "p2" : "p1";
-    room.phaseActor = room.turn;
-    return;
+/** the computer seat's due move, applied; a move the engine refuses is logged and left to the turn clock */
+async function botStep(room: RoomState): Promise<RoomState | null> {
+  const move = dueBotMove(room, Date.now());
+  if (!move) return null;
+  try {
+    return await startIfReady(run(room, move));
+  } catch (err) {
+    console.warn("[api/game] bot move failed:", err);
+    return null;
   }
-
-  const starter = room.phaseEndOrder[0] ?? "p1";
-  room.phaseNo += 1;
-  room.turn = starter;
-  room.phaseActor = starter;
-  room.endTurned = { p1: false, p2: false };
-  room.phaseEndOrder = [];
-  draw(room, "p1", 2);
-  draw(room, "p2", 2);
 }
-function playCard(room: RoomState, userId: string, handIndex: number) {
-  const s = sideOf(room, userId);
-  if (!s) throw new Error("Not in room");
-  if (room.phaseActor !== s) return;
-  const card = room.hand[s][handIndex];
-  if (!card) return;
 
-  if (allChars().some((c) => c.code === card)) {
-    room.hand[s].splice(handIndex, 1);
-    return;
-  }
-
-  if (card === "HEALING_AMULET") {
-    room.hero[s] = Math.min(room.hero[s] + 2, 30);
-  } else if (card === "BLAZING_SIGIL") {
-    room.board[s].forEach((u) => (u.hp += 2));
-  } else if (card === "FIREWORKS") {
-    const foe: Side = s === "p1" ? "p2" : "p1";
-    if (room.board[foe].length === 0) {
-      room.hero[foe] = Math.max(0, room.hero[foe] - 2);
-    } else {
-      for (let i = room.board[foe].length - 1; i >= 0; i--) {
-        room.board[foe][i].hp -= 2;
-        if (room.board[foe][i].hp <= 0) room.board[foe].splice(i, 1);
-      }
-    }
+/**
+ * Redacted for whoever is asking; anyone without a seat sees both hands hidden
+ * through the (possibly delayed) spectator feed. `version` goes back with the next action;
+ * `botAt` is when a computer opponent moves next, so clients know when to fetch again.
+ */
+function stateForClient(room: RoomState, currentUserId: string | undefined, version: number) {
+  const you: Side | null = currentUserId ? sideOf(room, currentUserId) : null;
+  // `watching` only marks who joined as a spectator
+  if (!you) {
+    const watching = room.spectators.some((p) => p.userId === currentUserId);
+    return { ...spectatorView(room, Date.now()), watching, version };
   }
-  room.hand[s].splice(handIndex, 1);
+  const botAt = botDueAt(room);
+  return { ...viewFor(room, you), version, ...(botAt != null ? { botAt } : {}) };
 }
-function discardForInfinite(room: RoomState, userId: string, handIndex: number) {
-  const s = sideOf(room, userId);
-  if (!s) throw new Error("Not in room");
-  if (room.phaseActor !== s) return;
-  const card = room.hand[s][handIndex];
-  if (!card) return;
-  room.hand[s].splice(handIndex, 1);
-  addDie(room.dice[s], "Infinite", 1);
-}
-function passTurnAfterCombat(room: RoomState, actor: Side) {
-  const foe: Side = actor === "p1" ? "p2" : "p1";
-  room.turn = foe;
-  room.phaseActor = foe;
-}
-function combat(
-  room: RoomState,
-  userId: string,
-  attackerIndex: number,
-  targetIndex: number | null,
-  mode: "basic" | "skill" | "ult"
-) {
-  const s = sideOf(room, userId);
-  if (!s) throw new Error("Not in room");
-  if (room.phaseActor !== s) return;
-  const foe: Side = s === "p1" ? "p2" : "p1";
-  const atk = room.board[s][attackerIndex];
-  if (!atk) return;
-
-  const poolD = room.dice[s];
-  let dmg = atk.attack;
-  let did = false;
-
-  if (mode === "basic") {
-    if (!spendAny(poolD, 1)) return;
-    dmg = atk.attack;
-    atk.gauge = Math.min((atk.gauge ?? 0) + 1, 3);
-    did = true;
-  } else if (mode === "skill") {
-    if (!spendElement(poolD, atk.element as ElementKind, 3)) return;
-    dmg = atk.attack + 1;
-    atk.gauge = Math.min((atk.gauge ?? 0) + 1, 3);
-    did = true;
-  } else if (mode === "ult") {
-    if ((atk.gauge ?? 0) < 3) return;
-    if (!spendElement(poolD, atk.element as ElementKind, 5)) return;
-    dmg = atk.attack + 3;
-    atk.gauge = 0;
-    did = true;
-  }
-
-  if (!did) return;
-
-  if (room.board[foe].length === 0) room.hero[foe] = Math.max(0, room.hero[foe] - dmg);
-  else {
-    const t = targetIndex ?? 0;
-    const tgt = room.board[foe][t];
-    if (!tgt) return;
-    tgt.hp -= dmg;
-    if (tgt.hp <= 0) room.board[foe].splice(t, 1);
-  }
 
-  passTurnAfterCombat(room, s);
+/* ========================= Seat helper ========================= */
+function seatOrTake(room: RoomState, uid: string, info: PlayerInfo, want?: Side): Side {
+  const side = pickSeat(room, uid, info, want);
+  // a spectator who sits down stops watching
+  room.spectators = room.spectators.filter((p) => p.userId !== uid);
+  return side;
 }
 
-/* ========================= Seat helper ========================= */
-function seatOrTake(
+function pickSeat(
   room: RoomState,
   uid: string,
   info: PlayerInfo,
@@ -604,6 +498,210 @@ function seatOrTake(
   throw new Error("Room is full");
 }
 
+/* ========================= Matchmaking ========================= */
+/**
+ * One waiting player. Entries live in `match_queue` (user_id, room_id, entry_json)
+ * when Supabase is on, in memory otherwise; `roomId` is set once someone paired with them.
+ */
+type QueueEntry = { user: PlayerInfo; rating: number | null; since: number; seenAt: number; roomId?: string };
+
+/** a waiting player who stops polling for this long has left the queue */
+const QUEUE_STALE_MS = 15_000;
+/** rating gap counted for a pairing where either side has no rating */
+const UNRATED_GAP = 10_000;
+const ROOM_ID_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function memQueue(): Map<string, QueueEntry> {
+  const g = globalThis as typeof globalThis & { __NOF_QUEUE__?: Map<string, QueueEntry> };
+  if (!g.__NOF_QUEUE__) g.__NOF_QUEUE__ = new Map();
+  return g.__NOF_QUEUE__;
+}
+
+async function queueEntries(): Promise<QueueEntry[]> {
+  if (DB_ON && supa) {
+    try {
+      const { data, error } = await supa.from("match_queue").select("entry_json, room_id");
+      if (error) throw error;
+      return ((data ?? []) as { entry_json: QueueEntry; room_id: string | null }[]).map((r) => ({
+        ...r.entry_json,
+        ...(r.room_id ? { roomId: r.room_id } : {}),
+      }));
+    } catch {
+      // fall back to in-memory
+    }
+  }
+  return [...memQueue().values()];
+}
+
+/** adds or refreshes an entry; a room someone already claimed it for is kept */
+async function putQueueEntry(entry: QueueEntry): Promise<void> {
+  if (DB_ON && supa) {
+    try {
+      const { error } = await supa.from("match_queue").upsert({ user_id: entry.user.userId, entry_json: entry });
+      if (error) throw error;
+      return;
+    } catch {
+      // fall back to in-memory
+    }
+  }
+  const roomId = memQueue().get(entry.user.userId)?.roomId;
+  memQueue().set(entry.user.userId, { ...entry, ...(roomId ? { roomId } : {}) });
+}
+
+async function dropQueueEntry(userId: string): Promise<void> {
+  if (DB_ON && supa) {
+    try {
+      const { error } = await supa.from("match_queue").delete().eq("user_id", userId);
+      if (error) throw error;
+      return;
+    } catch {
+      // fall back to in-memory
+    }
+  }
+  memQueue().delete(userId);
+}
+
+/** hands a still-unpaired entry its room; false when another pairing got there first */
+async function claimQueueEntry(userId: string, roomId: string): Promise<boolean> {
+  if (DB_ON && supa) {
+    try {
+      const { data, error } = await supa
+        .from("match_queue")
+        .update({ room_id: roomId })
+        .eq("user_id", userId)
+        .is("room_id", null)
+        .select("user_id")
+        .maybeSingle();
+      if (error) throw error;
+      return !!data;
+    } catch {
+      // fall back to in-memory
+    }
+  }
+  const entry = memQueue().get(userId);
+  if (!entry || entry.roomId) return false;
+  entry.roomId = roomId;
+  return true;
+}
+
+/** takes back a claim for `roomId` whose other half failed */
+async function releaseQueueEntry(userId: string, roomId: string): Promise<void> {
+  if (DB_ON && supa) {
+    try {
+      const { error } = await supa
+        .from("match_queue")
+        .update({ room_id: null })
+        .eq("user_id", userId)
+        .eq("room_id", roomId);
+      if (error) throw error;
+      return;
+    } catch {
+      // fall back to in-memory
+    }
+  }
+  const entry = memQueue().get(userId);
+  if (entry?.roomId === roomId) delete entry.roomId;
+}
+
+/** `users.rating` when the column exists and the user has one */
+async function ratingOf(p: PlayerInfo): Promise<number | null> {
+  if (!DB_ON || !supa) return null;
+  try {
+    const u = await findUserRowByAny(p.userId, p.name ?? null);
+    if (!u) return null;
+    const { data, error } = await supa.from("users").select("rating").eq("id", u.id).maybeSingle();
+    if (error || !data) return null;
+    const r = Number((data as { rating?: unknown }).rating);
+    return Number.isFinite(r) ? r : null;
+  } catch {
+    return null;
+  }
+}
+
+/** queue order: who joined first, user id on a tie */
+const waitedLonger = (a: QueueEntry, b: QueueEntry): boolean =>
+  a.since < b.since || (a.since === b.since && a.user.userId < b.user.userId);
+
+/**
+ * The waiting player closest in rating, the longest waiting on a tie. Only
+ * players who joined before `me` count: the newer of two entries makes the
+ * pairing, so two players never pick each other at once.
+ */
+function pickOpponent(me: QueueEntry, waiting: QueueEntry[]): QueueEntry | null {
+  const gap = (e: QueueEntry) => (me.rating != null && e.rating != null ? Math.abs(me.rating - e.rating) : UNRATED_GAP);
+  const now = Date.now();
+  const open = waiting.filter((e) => waitedLonger(e, me) && !e.roomId && now - e.seenAt < QUEUE_STALE_MS);
+  return open.sort((a, b) => gap(a) - gap(b) || a.since - b.since)[0] ?? null;
+}
+
+/** a fresh room with both seats taken and both sides ready, so the match is already under way */
+async function createMatchRoom(host: PlayerInfo, guest: PlayerInfo): Promise<{ id: string; version: number }> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    let id = "";
+    for (let i = 0; i < 6; i++) id += ROOM_ID_ALPHABET[Math.floor(Math.random() * ROOM_ID_ALPHABET.length)];
+    const { state, version } = await loadRoom(id);
+    if (state.mode !== "lobby" || state.players.p1 || state.players.p2) continue;
+
+    let room: RoomState = { ...state, players: { p1: host, p2: guest } };
+    room = run(room, { type: "ready", side: "p1" });
+    room = run(room, { type: "ready", side: "p2" });
+    room = await startIfReady(room);
+    stampActionTimes(room);
+    return { id, version: await saveRoom(id, room, version) };
+  }
+  throw new Error("Could not create a match room; try again");
+}
+
+/**
+ * Joins (or refreshes) the caller's place in the queue and pairs them when
+ * someone suitable is waiting. Clients call it every few seconds until it
+ * answers with a roomId; `waiting` counts the other players still queued.
+ * The caller's own entry is claimed before the opponent's, so a player that
+ * a newer entry takes meanwhile never ends up in two rooms.
+ */
+async function enqueue(user: PlayerInfo): Promise<{ roomId?: string; waiting?: number }> {
+  const entries = await queueEntries();
+  let mine = entries.find((e) => e.user.userId === user.userId);
+  if (mine?.roomId) {
+    await dropQueueEntry(user.userId);
+    const found = await findRoom(mine.roomId);
+    if (found && found.state.mode !== "finished" && sideOf(found.state, user.userId)) return { roomId: mine.roomId };
+    // that match is over or gone; queue up afresh
+    mine = undefined;
+  }
+
+  const now = Date.now();
+  const me: QueueEntry = {
+    user,
+    rating: mine ? mine.rating : await ratingOf(user),
+    since: mine?.since ?? now,
+    seenAt: now,
+  };
+  // a claimed entry nobody came back for expires too
+  for (const stale of entries.filter((e) => e.user.userId !== user.userId && now - e.seenAt >= QUEUE_STALE_MS)) {
+    await dropQueueEntry(stale.user.userId);
+  }
+  await putQueueEntry(me);
+
+  const foe = pickOpponent(me, entries);
+  if (foe) {
+    // the longer-waiting player hosts
+    const { id, version } = await createMatchRoom(foe.user, user);
+    if (await claimQueueEntry(user.userId, id)) {
+      if (await claimQueueEntry(foe.user.userId, id)) {
+        await dropQueueEntry(user.userId);
+        return { roomId: id };
+      }
+      await releaseQueueEntry(user.userId, id);
+    }
+    // one of the two was paired elsewhere first; nobody will come to this room
+    await saveRoom(id, freshRoom(id, seedRng(randomSeed())), version);
+  }
+
+  const others = entries.filter((e) => e.user.userId !== user.userId && !e.roomId && now - e.seenAt < QUEUE_STALE_MS);
+  return { waiting: others.length };
+}
+
 /* ========= tolerant body parser ========= */
 async function parseBody(req: Request): Promise<Record<string, unknown>> {
   try {
@@ -640,6 +738,32 @@ async function parseBody(req: Request): Promise<Record<string, unknown>> {
 }
 
 /* ========================= HTTP ========================= */
+/**
+ * GET /api/game?action=replay&matchId=ABC123-2[&download=1] — replay JSON of one finished match.
+ * Only once the match is over: the record holds both decks and the RNG.
+ */
+export async function GET(req: Request) {
+  try {
+    const u = new URL(req.url);
+    const action = u.searchParams.get("action") ?? "";
+    const matchId = (u.searchParams.get("matchId") ?? "").toUpperCase();
+    if (action !== "replay") throw new Error(`Unknown action: ${action}`);
+    if (!matchId) throw new Error("Missing matchId");
+
+    const replay = await loadReplay(matchId);
+    if (!replay) throw new Error("No replay for this match (it is available once the match is over)");
+
+    const headers: Record<string, string> = {};
+    if (u.searchParams.get("download")) {
+      headers["content-disposition"] = `attachment; filename="nof-replay-${matchId}.json"`;
+    }
+    return NextResponse.json(replay, { headers });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : "Server error";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
 export async function POST(req: Request) {
   try {
     const raw = await parseBody(req);
@@ -651,12 +775,33 @@ export async function POST(req: Request) {
       index?: number;
       attacker?: number;
       target?: number | null;
-      mode?: "basic" | "skill" | "ult";
+      mode?: AttackMode;
+      dice?: Record<string, unknown>;
+      indices?: unknown[];
       seat?: Side; // host -> p1, player -> p2
+      /** createRoom: seconds the spectator feed lags behind */
+      spectatorDelay?: number;
+      /** createRoom: a computer takes the player seat */
+      vsBot?: boolean;
+      /** client-made id; a repeat of an applied action is answered, not re-applied */
+      actionId?: string;
+      /** room version the client acted on */
+      version?: number;
+      /** getState: the version the client already has; the reply waits for a newer one */
+      since?: number;
     };
 
     const action = String(body?.action || "");
 
+    // the caller's identity never comes from the body; a claimed id must match it
+    const me = await identify(req, body.user);
+    const claimed = body.user?.userId || body.userId;
+    if (claimed && claimed !== me?.userId) throw new HttpError(403, "Identity mismatch");
+    const who = (): PlayerInfo => {
+      if (!me) throw new HttpError(401, "Sign in or get a guest token first");
+      return me;
+    };
+
     // --- deduce roomId from body or Referer ---
     let roomId = String(body?.roomId || "").toUpperCase();
     if (!roomId) {
@@ -668,7 +813,7 @@ export async function POST(req: Request) {
       } catch {}
     }
 
-    const noRoomNeeded = new Set(["hello", "createRoom", "joinRoom"]);
+    const noRoomNeeded = new Set(["hello", "guest", "createRoom", "joinRoom", "queue", "leaveQueue"]);
     if (!action) throw new Error("Missing action");
     if (!roomId && !noRoomNeeded.has(action)) throw new Error("Missing roomId");
 
@@ -681,15 +826,27 @@ export async function POST(req: Request) {
       });
     }
 
+    if (action === "guest") {
+      // a browser that still holds a valid token keeps it (and its seats)
+      if (me?.userId.startsWith(GUEST_PREFIX)) return NextResponse.json({ ok: true, userId: me.userId });
+      return NextResponse.json({ ok: true, ...issueGuestToken() });
+    }
+
     // ---------- create / join ----------
     if (action === "createRoom") {
       const id = roomId;
       const { state, version } = await loadRoom(id);
-      const want = "p1";
-      const u = body.user;
-      if (u?.userId) {
-        // ensure creator sits at Host
-        seatOrTake(state, u.userId, u, want);
+      const u = who();
+      // ensure creator sits at Host
+      seatOrTake(state, u.userId, u, "p1");
+      const delay = Math.floor(Number(body.spectatorDelay ?? 0));
+      if (state.mode === "lobby" && Number.isFinite(delay)) {
+        state.rules.spectatorDelay = Math.max(0, Math.min(MAX_SPECTATOR_DELAY, delay));
+      }
+      // the bot readies itself the next time the room is loaded
+      if (body.vsBot && state.mode === "lobby") {
+        if (state.players.p2 && !isBot(state.players.p2)) throw new Error("The player seat is already taken");
+        state.players.p2 = botPlayer();
       }
       await saveRoom(id, state, version);
       return NextResponse.json({ ok: true, roomId: id });
@@ -698,93 +855,233 @@ export async function POST(req: Request) {
     if (action === "joinRoom") {
       const id = roomId;
       const { state, version } = await loadRoom(id);
-      const u = body.user;
-      if (u?.userId) {
-        seatOrTake(state, u.userId, u, body.seat);
-      }
+      const u = who();
+      seatOrTake(state, u.userId, u, body.seat);
       await saveRoom(id, state, version);
       return NextResponse.json({ ok: true, roomId: id });
     }
 
+    // ---------- matchmaking ----------
+    if (action === "queue") {
+      const u = who();
+      if (u.userId.startsWith(GUEST_PREFIX)) throw new HttpError(401, "Sign in with Discord to use matchmaking");
+      // matches are played with the saved deck, so there has to be one (when decks can be saved at all)
+      if (DB_ON) {
+        const row = await findUserRowByAny(u.userId, u.name ?? null);
+        if (!row || !(await loadDeckFromDB(row.id))) throw new Error("Save a deck in the Deck Builder first");
+      }
+      return NextResponse.json({ ok: true, ...(await enqueue(u)) });
+    }
+
+    if (action === "leaveQueue") {
+      await dropQueueEntry(who().userId);
+      return NextResponse.json({ ok: true });
+    }
+
     // ---------- room ops ----------
-    const { state: room, version: ver } = await loadRoom(roomId);
+    const loaded = await loadRoom(roomId);
+    let ver = loaded.version;
+    let saved = loaded.state;
+    /** client action id to store with the next save */
+    let stampId = "";
+
+    // save, and stamp + record the match on the action that finished it; an unchanged room isn't
+    // saved, and a spectator joining or leaving doesn't move gameVersion
+    const persist = async (next: RoomState, spectatorsOnly = false) => {
+      if (next === saved) return;
+      if (!spectatorsOnly) next.gameVersion = ver + 1;
+      if (stampId) next.actionIds = [...(next.actionIds ?? []).slice(1 - ACTION_IDS_KEPT), stampId];
+      stampActionTimes(next);
+      const justFinished = saved.mode !== "finished" && next.mode === "finished";
+      if (justFinished) next.endedAt = Date.now();
+      ver = await saveRoom(roomId, next, ver);
+      saved = next;
+      if (justFinished) await recordMatch(next);
+    };
+
+    // retries and double submits: answer an already-applied action with the current state,
+    // refuse one made against an older state (checked before the clock can bump the version)
+    const actionId = typeof body.actionId === "string" ? body.actionId.slice(0, 64) : "";
+    if (action !== "getState" && actionId && loaded.state.actionIds?.includes(actionId)) {
+      const uid = me?.userId ?? "";
+      return NextResponse.json({ ok: true, duplicate: true, state: stateForClient(loaded.state, uid, ver) });
+    }
+    const gameVersion = loaded.state.gameVersion ?? loaded.version;
+    if (TURN_ACTIONS.has(action) && body.version != null && Number(body.version) < gameVersion) {
+      throw new HttpError(409, CONFLICT);
+    }
+
+    // an expired turn clock and due bot moves are applied on every load, before the caller's own action
+    const catchUp = async (cur: RoomState): Promise<RoomState> => {
+      let next = enforceClock(cur, Date.now());
+      if (next !== cur) await persist(next);
+      for (let i = 0; i < BOT_MOVES_PER_LOAD; i++) {
+        const moved = await botStep(next);
+        if (!moved) break;
+        await persist(moved);
+        next = moved;
+      }
+      return next;
+    };
+    let room = await catchUp(loaded.state);
+    // a timeout or bot move saved just now is news to the caller too; their turn action resyncs first
+    if (TURN_ACTIONS.has(action) && ver !== loaded.version) throw new HttpError(409, CONFLICT);
+    // from here on a save is the caller's action; its id is stored with it
+    stampId = action !== "getState" ? actionId : "";
 
     switch (action) {
       case "getState": {
-        const uid = String(body.userId || "");
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const uid = me?.userId ?? "";
+        // long poll: hold the request while the caller is up to date, but not past the turn deadline
+        // or the bot's next move
+        const since = body.since == null ? null : Number(body.since);
+        if (since === ver) {
+          const limit = Date.now() + LONG_POLL_MS;
+          const botAt = botDueAt(room);
+          const until = Math.min(
+            limit,
+            room.clock ? deadlineOf(room, room.clock) : limit,
+            botAt != null && botAt > Date.now() ? botAt : limit
+          );
+          const moved = await waitForChange(roomId, since, until);
+          if (!moved && until === limit) return NextResponse.json({ ok: true, unchanged: true, version: ver });
+
+          const again = await loadRoom(roomId);
+          ver = again.version;
+          saved = again.state;
+          room = await catchUp(again.state);
+        }
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "ready": {
-        const user = body.user as PlayerInfo | undefined;
-        const uid = String(user?.userId || body.userId || "");
-        if (!uid) throw new Error("Missing userId");
+        const user = who();
+        const uid = user.userId;
 
         // seat according to preference from URL hash (#host/#player)
-        const seat = seatOrTake(
-          room,
-          uid,
-          user ?? { userId: uid, name: null, avatar: null },
-          body.seat
-        );
-
-        // mark ready
-        room.ready[seat] = true;
-
-        // start when both ready
-        if (room.ready.p1 && room.ready.p2 && room.mode !== "play") {
-          await startGame(room);
+        const seat = seatOrTake(room, uid, user, body.seat);
+
+        room = run(room, { type: "ready", side: seat });
+        room = await startIfReady(room);
+
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "spectate": {
+        const user = who();
+        if (sideOf(room, user.userId)) throw new Error("You already have a seat in this room");
+        if (!room.spectators.some((p) => p.userId === user.userId)) {
+          if (room.spectators.length >= MAX_SPECTATORS) throw new Error("Spectator seats are full");
+          room = { ...room, spectators: [...room.spectators, user] };
+          await persist(room, true);
         }
+        return NextResponse.json({ ok: true, state: stateForClient(room, user.userId, ver) });
+      }
 
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+      case "stopSpectating": {
+        const uid = who().userId;
+        room = { ...room, spectators: room.spectators.filter((p) => p.userId !== uid) };
+        await persist(room, true);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "ackCoin": {
-        const uid = String((body.user as PlayerInfo | undefined)?.userId || body.userId || "");
-        if (uid) ackCoin(room, uid);
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const uid = who().userId;
+        const s = sideOf(room, uid);
+        if (s) room = run(room, { type: "ackCoin", side: s });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "mulligan": {
+        const uid = who().userId;
+        const indices = Array.isArray(body.indices) ? body.indices.map(Number).filter(Number.isInteger) : [];
+        room = run(room, { type: "mulligan", side: actorOf(room, uid), indices });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "rerollDice": {
+        const uid = who().userId;
+        const dice: DicePool = {};
+        for (const [el, n] of Object.entries(body.dice ?? {})) {
+          const k = Math.floor(Number(n));
+          if (Number.isFinite(k) && k > 0) dice[el] = k;
+        }
+        room = run(room, { type: "rerollDice", side: actorOf(room, uid), dice });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "confirmDice": {
+        const uid = who().userId;
+        room = run(room, { type: "confirmDice", side: actorOf(room, uid) });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "endTurn": {
-        const uid = String((body.user as PlayerInfo | undefined)?.userId || body.userId || "");
-        if (uid) endTurn(room, uid);
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const uid = who().userId;
+        room = run(room, { type: "endTurn", side: actorOf(room, uid) });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "endPhase": {
-        const uid = String((body.user as PlayerInfo | undefined)?.userId || body.userId || "");
-        if (uid) endPhase(room, uid);
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const uid = who().userId;
+        room = run(room, { type: "endPhase", side: actorOf(room, uid) });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "playCard": {
-        const uid = String((body.user as PlayerInfo | undefined)?.userId || body.userId || "");
-        const handIndex = Number(body.index ?? 0);
-        if (uid) playCard(room, uid, handIndex);
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const uid = who().userId;
+        const index = Number(body.index ?? 0);
+        room = run(room, { type: "playCard", side: actorOf(room, uid), index });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "discardForInfinite": {
-        const uid = String((body.user as PlayerInfo | undefined)?.userId || body.userId || "");
-        const handIndex = Number(body.index ?? 0);
-        if (uid) discardForInfinite(room, uid, handIndex);
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const uid = who().userId;
+        const index = Number(body.index ?? 0);
+        room = run(room, { type: "discardForInfinite", side: actorOf(room, uid), index });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "switchActive": {
+        const uid = who().userId;
+        const index = Number(body.index ?? 0);
+        room = run(room, { type: "switchActive", side: actorOf(room, uid), index });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       case "combat": {
-        const uid = String((body.user as PlayerInfo | undefined)?.userId || body.userId || "");
+        const uid = who().userId;
         const attacker = Number(body.attacker ?? 0);
         const target = body.target == null ? null : Number(body.target);
-        const mode = String(body.mode ?? "basic") as "basic" | "skill" | "ult";
-        if (uid) combat(room, uid, attacker, target, mode);
-        await saveRoom(roomId, room, ver);
-        return NextResponse.json({ ok: true, state: stateForClient(room, uid) });
+        const mode = String(body.mode ?? "basic") as AttackMode;
+        room = run(room, { type: "combat", side: actorOf(room, uid), attacker, target, mode });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "concede": {
+        const uid = who().userId;
+        room = run(room, { type: "concede", side: actorOf(room, uid) });
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
+      }
+
+      case "rematch": {
+        const uid = who().userId;
+        room = run(room, { type: "rematch", side: actorOf(room, uid) });
+        room = await startIfReady(room);
+        await persist(room);
+        return NextResponse.json({ ok: true, state: stateForClient(room, uid, ver) });
       }
 
       default:
@@ -792,6 +1089,6 @@ export async function POST(req: Request) {
     }
   } catch (e: unknown) {
     const message = e instanceof Error ? e.message : "Server error";
-    return NextResponse.json({ error: message }, { status: 400 });
+    return NextResponse.json({ error: message }, { status: e instanceof HttpError ? e.status : 400 });
   }
 }
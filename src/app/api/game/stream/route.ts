@@ -0,0 +1,59 @@
+// src/app/api/game/stream/route.ts
+import { NextResponse } from "next/server";
+import { onRoomVersion } from "@/lib/roomFeed";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** comment line that keeps proxies from closing an idle stream */
+const KEEPALIVE_MS = 25_000;
+
+/**
+ * GET /api/game/stream?roomId=ABC — server-sent events, one `version` event
+ * ({ version }) per saved room change. Carries no game state, so it needs no
+ * identity; clients refetch getState with their own credentials. roomFeed also
+ * carries saves made on other server instances when Supabase is on.
+ */
+export async function GET(req: Request) {
+  const roomId = (new URL(req.url).searchParams.get("roomId") ?? "").toUpperCase();
+  if (!roomId) return NextResponse.json({ error: "Missing roomId" }, { status: 400 });
+
+  const enc = new TextEncoder();
+  let close = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(enc.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+      const off = onRoomVersion(roomId, (version) => write(`event: version\ndata: ${JSON.stringify({ version })}\n\n`));
+      const ping = setInterval(() => write(": ping\n\n"), KEEPALIVE_MS);
+      close = () => {
+        off();
+        clearInterval(ping);
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+      req.signal.addEventListener("abort", close);
+      // browsers retry a dropped stream after this many ms
+      write("retry: 3000\n\n");
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+    },
+  });
+}
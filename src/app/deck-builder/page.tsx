@@ -5,6 +5,7 @@ import React, { Suspense, useEffect, useMemo, useState } from "react";
 import Image from "next/image";
 import { useSearchParams, useRouter } from "next/navigation";
 import cardsDataJson from "@/data/cards.json";
+import { RESERVE_CARD_BASE } from "@/lib/game/cards";
 
 /* ================= types ================= */
 type CharacterCard = {
@@ -49,6 +50,8 @@ type SaveBody = {
   userId: number;
   name: string;
   characters: number[];
+  /** extra characters shuffled into the deck; they share the 20 card slots */
+  reserves: number[];
   cards: { cardId: number; count: number }[];
 };
 
@@ -144,7 +147,12 @@ function normalizeInventory(raw: unknown): Inventory {
 }
 
 /** -------- DECK -------- */
-function normalizeDeck(raw: unknown): { name: string; characters: number[]; others: Record<number, number> } {
+function normalizeDeck(raw: unknown): {
+  name: string;
+  characters: number[];
+  reserves: number[];
+  others: Record<number, number>;
+} {
   let deckObj: Record<string, unknown> | null = null;
 
   const pickRow = (x: unknown): Record<string, unknown> | null =>
@@ -178,6 +186,14 @@ function normalizeDeck(raw: unknown): { name: string; characters: number[]; othe
     characters = tmp;
   }
 
+  const reserves: number[] = [];
+  if (Array.isArray(deckObj?.reserves)) {
+    for (const x of deckObj!.reserves as unknown[]) {
+      const n = Number(x);
+      if (Number.isFinite(n) && n >= 0) reserves.push(n);
+    }
+  }
+
   const others: Record<number, number> = {};
   if (Array.isArray(deckObj?.cards)) {
     for (const it of deckObj!.cards as Array<Record<string, unknown>>) {
@@ -189,11 +205,12 @@ function normalizeDeck(raw: unknown): { name: string; characters: number[]; othe
   } else {
     for (let i = 1; i <= 20; i++) {
       const v = Number(deckObj?.[`card${i}`] ?? 0);
-      if (v > 0) others[v] = (others[v] ?? 0) + 1;
+      if (v >= RESERVE_CARD_BASE) reserves.push(v - RESERVE_CARD_BASE);
+      else if (v > 0) others[v] = (others[v] ?? 0) + 1;
     }
   }
 
-  return { name, characters, others };
+  return { name, characters, reserves, others };
 }
 
 /* ================ data from cards.json ================ */
@@ -230,10 +247,15 @@ function PageInner() {
   const [name, setName] = useState<string>("My Deck");
   const [inv, setInv] = useState<Inventory | null>(null);
   const [selChars, setSelChars] = useState<number[]>([]);
+  const [selReserves, setSelReserves] = useState<number[]>([]);
   const [selOthers, setSelOthers] = useState<Record<number, number>>({});
   const [loaded, setLoaded] = useState<boolean>(false);
 
-  const othersTotal = useMemo(() => Object.values(selOthers).reduce((a, b) => a + b, 0), [selOthers]);
+  // reserves take deck slots like any other card
+  const othersTotal = useMemo(
+    () => Object.values(selOthers).reduce((a, b) => a + b, 0) + selReserves.length,
+    [selOthers, selReserves]
+  );
   const canAddMore = othersTotal < 20;
 
   useEffect(() => {
@@ -271,10 +293,12 @@ function PageInner() {
         const deck = normalizeDeck(deckRaw);
         setName(deck.name || "My Deck");
         setSelChars(deck.characters ?? []);
+        setSelReserves(deck.reserves ?? []);
         setSelOthers(deck.others ?? {});
       } catch (e) {
         console.error("load deck/inventory failed:", e);
         setSelChars([]);
+        setSelReserves([]);
         setSelOthers({});
       } finally {
         if (alive) setLoaded(true);
@@ -286,8 +310,14 @@ function PageInner() {
   }, [userId]);
 
   function toggleChar(id: number) {
+    if (selReserves.includes(id)) return;
     setSelChars((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : prev.length >= 3 ? prev : [...prev, id]));
   }
+  function toggleReserve(id: number) {
+    if (selChars.includes(id)) return;
+    if (!selReserves.includes(id) && othersTotal >= 20) return;
+    setSelReserves((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  }
   function addOther(id: number) {
     if (othersTotal >= 20) return;
     setSelOthers((prev) => {
@@ -315,6 +345,7 @@ function PageInner() {
       userId,
       name,
       characters: selChars,
+      reserves: selReserves,
       cards: Object.entries(selOthers).map(([id, count]) => ({ cardId: Number(id), count: Number(count) })),
     };
     try {
@@ -328,9 +359,9 @@ function PageInner() {
   const VISIBLE_CHAR_CARDS = useMemo(() => {
     const show = new Set<number>();
     if (inv?.chars) for (const [k, qty] of Object.entries(inv.chars)) if ((qty ?? 0) > 0) show.add(Number(k));
-    for (const id of selChars) show.add(id);
+    for (const id of [...selChars, ...selReserves]) show.add(id);
     return CHAR_CARDS.filter((c) => show.has(c.id));
-  }, [inv, selChars, CHAR_CARDS]);
+  }, [inv, selChars, selReserves, CHAR_CARDS]);
 
   const VISIBLE_OTHER_CARDS = useMemo(() => {
     if (!inv) return [] as typeof OTHER_CARDS;
@@ -373,6 +404,7 @@ function PageInner() {
           placeholder="Deck name"
         />
         <div className="text-sm opacity-70 whitespace-nowrap">Chars {selChars.length}/3</div>
+        <div className="text-sm opacity-70 whitespace-nowrap">Reserves {selReserves.length}</div>
         <div className={`text-sm whitespace-nowrap ${othersTotal > 20 ? "text-rose-400" : "opacity-70"}`}>
           Others {othersTotal}/20
         </div>
@@ -390,15 +422,14 @@ function PageInner() {
           {VISIBLE_CHAR_CARDS.map((c) => {
             const owned = inv?.chars?.[c.id] ?? 0;
             const selected = selChars.includes(c.id);
+            const reserved = selReserves.includes(c.id);
             return (
-              <button
+              <div
                 key={c.id}
                 className={`relative border p-3 text-left rounded-xl ${
-                  selected ? "border-emerald-500" : "border-white/10"
+                  selected ? "border-emerald-500" : reserved ? "border-amber-400" : "border-white/10"
                 } bg-black/20 hover:bg-black/30`}
                 style={{ width: CARD_W }}
-                onClick={() => toggleChar(c.id)}
-                title="กดเพื่อเลือก/เอาออก"
               >
                 <div className="absolute left-2 top-2 z-10">
                   <Badge>#{c.id}</Badge>
@@ -406,11 +437,23 @@ function PageInner() {
                 <div className="absolute right-2 top-2 z-10">
                   <Badge>owned {owned}</Badge>
                 </div>
-                <div className="mt-3">
-                  <PortraitCardImage src={cardImg(c.art, "character")} alt={c.code} />
-                </div>
-                <div className="mt-2 font-medium truncate">{c.name || c.code.replaceAll("_", " ")}</div>
-              </button>
+                <button className="block w-full text-left" onClick={() => toggleChar(c.id)} title="กดเพื่อเลือก/เอาออก">
+                  <div className="mt-3">
+                    <PortraitCardImage src={cardImg(c.art, "character")} alt={c.code} />
+                  </div>
+                  <div className="mt-2 font-medium truncate">{c.name || c.code.replaceAll("_", " ")}</div>
+                </button>
+                <button
+                  className={`mt-2 w-full rounded px-2 py-1 text-xs disabled:opacity-40 ${
+                    reserved ? "bg-amber-600" : "bg-neutral-700"
+                  }`}
+                  disabled={selected || (!reserved && !canAddMore)}
+                  onClick={() => toggleReserve(c.id)}
+                  title="ใส่ในกองการ์ดเป็นตัวสำรอง (ลงสนามจากมือ)"
+                >
+                  {reserved ? "Reserve ✓" : "+ Reserve"}
+                </button>
+              </div>
             );
           })}
         </div>
@@ -1,18 +1,20 @@
 // src/app/page.tsx
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { signIn, signOut, useSession } from "next-auth/react";
-import type { Session } from "next-auth";
 import Image from "next/image";
+import { ensureGuest, guestHeaders } from "@/hooks/useGame";
 
 /* ================= helpers ================= */
+/** how often the matchmaking queue is polled while searching */
+const QUEUE_POLL_MS = 2000;
 
 async function post<T>(body: unknown): Promise<T> {
   const res = await fetch("/api/game", {
     method: "POST",
-    headers: { "content-type": "application/json" },
+    headers: { "content-type": "application/json", ...guestHeaders() },
     cache: "no-store",
     body: JSON.stringify(body),
   });
@@ -31,29 +33,6 @@ async function post<T>(body: unknown): Promise<T> {
   return (json as T) ?? ({} as T);
 }
 
-function safeRandomId(): string {
-  if (typeof globalThis !== "undefined" && "crypto" in globalThis) {
-    const c = (globalThis as { crypto?: Crypto }).crypto;
-    if (c && typeof c.randomUUID === "function") return c.randomUUID();
-  }
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
-}
-
-function stableUserId(session: Session | null | undefined): string {
-  if (typeof window === "undefined") return "ssr";
-  const authId =
-    (session?.user as { id?: string | null } | undefined)?.id ??
-    session?.user?.email ??
-    null;
-  if (authId) return String(authId);
-  const key = "NOF_guestId";
-  const existing = localStorage.getItem(key);
-  if (existing) return existing;
-  const rnd = safeRandomId();
-  localStorage.setItem(key, rnd);
-  return rnd;
-}
-
 function randRoom(len = 6) {
   const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
   let out = "";
@@ -65,8 +44,8 @@ function randRoom(len = 6) {
 
 /* ================= types ================= */
 type CreateJoinResponse = { ok: boolean; roomId?: string };
+type QueueResponse = { ok: boolean; roomId?: string; waiting?: number };
 type PlayerInfo = {
-  userId: string;
   name?: string | null;
   avatar?: string | null;
 };
@@ -78,23 +57,37 @@ export default function Home() {
 
   const [createCode, setCreateCode] = useState<string>(randRoom());
   const [joinCode, setJoinCode] = useState<string>("");
+  const [spectatorDelay, setSpectatorDelay] = useState<number>(0);
+  const [vsBot, setVsBot] = useState<boolean>(false);
+  /** players waiting besides us while searching; null when not in the queue */
+  const [queueing, setQueueing] = useState<number | null>(null);
+  /** id of the running search loop; 0 stops it */
+  const searchRef = useRef(0);
 
-  const user: PlayerInfo = useMemo(() => {
-    const id = stableUserId(session);
-    return {
-      userId: id,
+  // display info only; the server seats you by your session or guest token
+  const user: PlayerInfo = useMemo(
+    () => ({
       name: session?.user?.name ?? "Player",
       avatar: session?.user?.image ?? null,
-    };
-  }, [session]);
+    }),
+    [session]
+  );
+
+  /** guests need a signed token before the server will seat them */
+  async function ensureIdentity() {
+    if (status !== "authenticated") await ensureGuest();
+  }
 
   async function onCreate() {
     try {
       const roomId = (createCode || randRoom()).toUpperCase();
+      await ensureIdentity();
       const res = await post<CreateJoinResponse>({
         action: "createRoom",
         roomId,
         user,
+        spectatorDelay,
+        vsBot,
       });
       router.push(`/play/${(res.roomId || roomId).toUpperCase()}`);
     } catch (e: unknown) {
@@ -106,6 +99,7 @@ export default function Home() {
     try {
       const roomId = (joinCode || "").trim().toUpperCase();
       if (!roomId) return alert("กรอกรหัสห้องก่อนนะ");
+      await ensureIdentity();
       const res = await post<CreateJoinResponse>({
         action: "joinRoom",
         roomId,
@@ -117,6 +111,58 @@ export default function Home() {
     }
   }
 
+  async function onFindMatch() {
+    const search = Date.now();
+    searchRef.current = search;
+    setQueueing(0);
+    try {
+      while (search === searchRef.current) {
+        const res = await post<QueueResponse>({ action: "queue", user });
+        if (res.roomId) {
+          searchRef.current = 0;
+          router.push(`/play/${res.roomId.toUpperCase()}`);
+          return;
+        }
+        if (search !== searchRef.current) return;
+        setQueueing(res.waiting ?? 0);
+        await new Promise((resolve) => setTimeout(resolve, QUEUE_POLL_MS));
+      }
+    } catch (e: unknown) {
+      if (search !== searchRef.current) return;
+      searchRef.current = 0;
+      setQueueing(null);
+      alert(`Matchmaking failed: ${e instanceof Error ? e.message : "unknown"}`);
+    }
+  }
+
+  async function onCancelMatch() {
+    searchRef.current = 0;
+    setQueueing(null);
+    await post({ action: "leaveQueue" }).catch(() => {});
+  }
+
+  // leaving the page mid-search leaves the queue too
+  useEffect(() => {
+    const searches = searchRef;
+    return () => {
+      if (!searches.current) return;
+      searches.current = 0;
+      void post({ action: "leaveQueue" }).catch(() => {});
+    };
+  }, []);
+
+  async function onWatch() {
+    try {
+      const roomId = (joinCode || "").trim().toUpperCase();
+      if (!roomId) return alert("กรอกรหัสห้องก่อนนะ");
+      await ensureIdentity();
+      await post({ action: "spectate", roomId, user });
+      router.push(`/play/${roomId}`);
+    } catch (e: unknown) {
+      alert(`Watch failed: ${e instanceof Error ? e.message : "unknown"}`);
+    }
+  }
+
   return (
     <main className="min-h-screen p-6 flex flex-col gap-8">
       <h1 className="text-2xl font-bold">Nexus of Fates</h1>
@@ -167,6 +213,23 @@ export default function Home() {
               Create
             </button>
           </div>
+          <label className="mt-3 flex items-center gap-2 text-sm opacity-80">
+            Spectator delay
+            <select
+              className="px-2 py-1 rounded bg-neutral-800"
+              value={spectatorDelay}
+              onChange={(e) => setSpectatorDelay(Number(e.target.value))}
+            >
+              <option value={0}>Live</option>
+              <option value={30}>30s</option>
+              <option value={60}>60s</option>
+              <option value={120}>2 min</option>
+            </select>
+          </label>
+          <label className="mt-2 flex items-center gap-2 text-sm opacity-80">
+            <input type="checkbox" checked={vsBot} onChange={(e) => setVsBot(e.target.checked)} />
+            เล่นกับคอมพิวเตอร์ (Computer นั่งฝั่ง Player)
+          </label>
         </div>
 
         <div className="rounded-xl border border-white/10 p-4 bg-black/20">
@@ -185,6 +248,40 @@ export default function Home() {
             >
               Join
             </button>
+            <button
+              className="px-4 py-2 rounded bg-neutral-700"
+              onClick={onWatch}
+              disabled={!joinCode.trim()}
+              title="ดูเกมโดยไม่เข้าร่วม"
+            >
+              Watch
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* matchmaking */}
+      <section className="rounded-xl border border-white/10 p-4 bg-black/20">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="font-semibold">Matchmaking</div>
+          <span className="text-sm opacity-70">
+            {queueing == null ? "หาคู่แข่งด้วยเด็คที่ใช้อยู่" : `กำลังหาคู่แข่ง… (รออยู่ ${queueing} คน)`}
+          </span>
+          <div className="ml-auto flex gap-2">
+            {queueing == null ? (
+              <button
+                className="px-4 py-2 rounded bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+                onClick={onFindMatch}
+                disabled={status !== "authenticated"}
+                title={status !== "authenticated" ? "ล็อกอินก่อนนะ" : ""}
+              >
+                Find Match
+              </button>
+            ) : (
+              <button className="px-4 py-2 rounded bg-neutral-700" onClick={onCancelMatch}>
+                Cancel
+              </button>
+            )}
           </div>
         </div>
       </section>
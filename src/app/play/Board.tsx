@@ -0,0 +1,455 @@
+// src/app/play/Board.tsx
+"use client";
+
+// Board pieces shared by the play and replay pages.
+import React, { useEffect, useRef } from "react";
+import Image from "next/image";
+import type {
+  CardsData,
+  DicePool,
+  LogEntry,
+  MatchEndReason,
+  Side,
+  SupportVM,
+  UnitStatus,
+  UnitVM,
+} from "@/lib/game/types";
+import cardsDataJson from "@/data/cards.json";
+import { BOARD_SLOTS } from "@/lib/game/cards";
+import { STATUS_INFO } from "@/lib/game/statuses";
+import { SUPPORT_SLOTS, supportOf } from "@/lib/game/supports";
+
+const cardsData = cardsDataJson as CardsData;
+
+/* ===================== assets ===================== */
+export const ELEMENT_ICON: Record<string, string> = {
+  Pyro: "/dice/pyro.png",
+  Hydro: "/dice/hydro.png",
+  Cryo: "/dice/cryo.png",
+  Electro: "/dice/electro.png",
+  Geo: "/dice/geo.png",
+  Anemo: "/dice/anemo.png",
+  Quantum: "/dice/quantum.png",
+  Imaginary: "/dice/imaginary.png",
+  Neutral: "/dice/neutral.png",
+  Infinite: "/dice/infinite.png",
+};
+
+/* ===================== image helper ===================== */
+function codeToPrettyName(code: string): string {
+  return (code || "")
+    .split("_")
+    .map((p) => p.toLowerCase())
+    .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
+    .join(" ");
+}
+const CHAR_ART = new Map<string, string>(cardsData.characters.map((c) => [c.code.toUpperCase(), c.art]));
+const SUPP_ART = new Map<string, string>(cardsData.supports.map((c) => [c.code.toUpperCase(), c.art]));
+const EVENT_ART = new Map<string, string>(cardsData.events.map((c) => [c.code.toUpperCase(), c.art]));
+export const CHAR_ABILITY = new Map<string, string>(cardsData.characters.map((c) => [c.code.toUpperCase(), c.abilityCode]));
+export const CARD_COST = new Map<string, { element: string; cost: number }>(
+  [...cardsData.characters, ...cardsData.supports, ...cardsData.events].map((c) => [
+    c.code.toUpperCase(),
+    { element: c.element, cost: c.cost },
+  ])
+);
+function imagePathByCode(code: string): string {
+  const key = code.toUpperCase();
+  if (CHAR_ART.has(key)) return encodeURI(`/char_cards/${CHAR_ART.get(key)!}`);
+  if (SUPP_ART.has(key)) return encodeURI(`/cards/${SUPP_ART.get(key)!}`);
+  if (EVENT_ART.has(key)) return encodeURI(`/cards/${EVENT_ART.get(key)!}`);
+  const file = `${codeToPrettyName(code)}.png`;
+  return encodeURI(`/cards/${file}`);
+}
+
+/* ===================== small UI bits ===================== */
+export function Pill({ children }: { children: React.ReactNode }) {
+  return <span className="px-2 py-0.5 rounded bg-neutral-800 text-xs">{children}</span>;
+}
+function sortWithPriority(keys: string[], priority: string[]) {
+  const at = (k: string) => {
+    const i = priority.indexOf(k);
+    return i < 0 ? Number.MAX_SAFE_INTEGER : i;
+  };
+  return [...keys].sort((a, b) => at(a) - at(b) || a.localeCompare(b));
+}
+export function DiceList({ dice, priority }: { dice: DicePool; priority: string[] }) {
+  const entries = Object.entries(dice as Record<string, number>) as [string, number][];
+  const items = entries
+    .filter(([, n]) => (n ?? 0) > 0)
+    .sort(([a], [b]) => (sortWithPriority([a, b], priority)[0] === a ? -1 : 1));
+
+  if (!items.length) return <div className="opacity-60 text-sm">—</div>;
+  return (
+    <div className="flex flex-wrap gap-2 text-xs">
+      {items.map(([k, v]) => (
+        <Pill key={k}>
+          {k}: {v}
+        </Pill>
+      ))}
+    </div>
+  );
+}
+export function DiceTray({
+  dice,
+  priority,
+  selected,
+  onToggle,
+}: {
+  dice: DicePool;
+  priority: string[];
+  selected?: Set<string>;
+  onToggle?: (id: string) => void;
+}) {
+  const entries = Object.entries(dice as Record<string, number>) as [string, number][];
+  const arr: { el: string; id: string }[] = [];
+  for (const [el, n] of entries) {
+    for (let i = 0; i < (n ?? 0); i++) arr.push({ el, id: `${el}-${i}` });
+  }
+  arr.sort((a, b) => (sortWithPriority([a.el, b.el], priority)[0] === a.el ? -1 : 1));
+  return (
+    <div className="rounded-lg border border-white/10 bg-black/30 p-3">
+      {arr.length ? (
+        <div className="grid grid-cols-5 sm:grid-cols-6 md:grid-cols-5 lg:grid-cols-6 gap-2">
+          {arr.map((d) => {
+            const on = !!selected?.has(d.id);
+            return (
+              <div
+                key={d.id}
+                className={`aspect-square rounded-md bg-neutral-900/40 border grid place-items-center ${
+                  on ? "border-amber-400 ring-2 ring-amber-400/60" : "border-white/10"
+                } ${onToggle ? "cursor-pointer" : ""}`}
+                title={d.el}
+                onClick={onToggle ? () => onToggle(d.id) : undefined}
+              >
+                <Image
+                  src={ELEMENT_ICON[d.el] ?? ELEMENT_ICON.Neutral}
+                  alt={d.el}
+                  width={48}
+                  height={48}
+                  className={`w-10 h-10 object-contain ${on ? "opacity-50" : ""}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="h-28 grid place-items-center text-sm opacity-70">No dice</div>
+      )}
+    </div>
+  );
+}
+
+/* ===================== framed character card ===================== */
+export const FRAME_W = 188;
+export const FRAME_H = 277;
+const FRAME_SRC = "/card_frame.png";
+const POS = {
+  el: { cx: 83.4, cy: 12, d: 18.6 },
+  atk: { cx: 13.5, cy: 89, d: 19.4 },
+  hp: { cx: 85.8, cy: 89, d: 19.4 },
+  name: { cx: 50, cy: 72, w: 73, h: 8.2 },
+};
+const textShadow = "0 1px 2px rgba(0,0,0,.9),0 0 2px rgba(0,0,0,.7)";
+
+export function CardBase({ code }: { code: string }) {
+  const src = imagePathByCode(code);
+  return <Image src={src} alt={code} fill className="object-cover rounded-lg" unoptimized />;
+}
+function CircleOverlay({ cx, cy, dPct, children }: { cx: number; cy: number; dPct: number; children: React.ReactNode }) {
+  const size = `${dPct}%`;
+  return (
+    <div
+      className="absolute grid place-items-center"
+      style={{ width: size, height: size, left: `${cx}%`, top: `${cy}%`, transform: "translate(-50%,-50%)" }}
+    >
+      {children}
+    </div>
+  );
+}
+function NameOverlay({ cx, cy, wPct, hPct, children }: { cx: number; cy: number; wPct: number; hPct: number; children: React.ReactNode }) {
+  return (
+    <div
+      className="absolute flex items-center justify-center text-center truncate"
+      style={{ width: `${wPct}%`, height: `${hPct}%`, left: `${cx}%`, top: `${cy}%`, transform: "translate(-50%,-50%)" }}
+    >
+      {children}
+    </div>
+  );
+}
+function StatusIcons({ statuses }: { statuses?: UnitStatus[] }) {
+  if (!statuses?.length) return null;
+  return (
+    <div className="absolute right-2 top-10 flex flex-col items-end gap-1">
+      {statuses.map((st) => {
+        const info = STATUS_INFO[st.kind];
+        return (
+          <div
+            key={st.kind}
+            className="text-[11px] bg-black/70 rounded px-1 text-white tabular-nums"
+            title={`${info.label} ×${st.stacks} (${st.phases} phase) — ${info.text}`}
+          >
+            {info.icon} {st.stacks}
+            <span className="opacity-60">·{st.phases}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+function CharacterCardFramed({ u }: { u: UnitVM }) {
+  const icon = ELEMENT_ICON[u.element] ?? ELEMENT_ICON.Neutral;
+  const display = u.code.replaceAll("_", " ");
+  return (
+    <div className="relative select-none" style={{ width: FRAME_W, height: FRAME_H }}>
+      <CardBase code={u.code} />
+      <Image src={FRAME_SRC} alt="frame" fill className="pointer-events-none object-cover" unoptimized />
+      <CircleOverlay cx={POS.el.cx} cy={POS.el.cy} dPct={POS.el.d}>
+        <Image src={icon} alt={u.element} fill sizes="100%" className="object-contain pointer-events-none" unoptimized />
+      </CircleOverlay>
+      {u.applied && (
+        <div
+          className="absolute left-2 top-8 w-6 h-6 rounded-full bg-black/60 p-0.5 ring-1 ring-white/40"
+          title={`${u.applied} aura`}
+        >
+          <Image
+            src={ELEMENT_ICON[u.applied] ?? ELEMENT_ICON.Neutral}
+            alt={u.applied}
+            width={20}
+            height={20}
+            className="w-5 h-5 object-contain"
+            unoptimized
+          />
+        </div>
+      )}
+      <CircleOverlay cx={POS.atk.cx} cy={POS.atk.cy} dPct={POS.atk.d}>
+        <span className="font-semibold text-white tabular-nums" style={{ fontSize: "22px", textShadow }}>
+          {u.attack}
+        </span>
+      </CircleOverlay>
+      <CircleOverlay cx={POS.hp.cx} cy={POS.hp.cy} dPct={POS.hp.d}>
+        <span className="font-semibold text-white tabular-nums" style={{ fontSize: "22px", textShadow }}>
+          {u.hp}
+        </span>
+      </CircleOverlay>
+      <NameOverlay cx={POS.name.cx} cy={POS.name.cy} wPct={POS.name.w} hPct={POS.name.h}>
+        <span className="font-medium" style={{ color: "#000", fontSize: 12, lineHeight: 1.05, letterSpacing: ".02em" }}>
+          {display}
+        </span>
+      </NameOverlay>
+      <div className="absolute left-2 top-2 text-[11px] bg-black/60 rounded px-1 text-white">ULT {(u.gauge ?? 0)}/3</div>
+      <StatusIcons statuses={u.statuses} />
+    </div>
+  );
+}
+
+/* ===================== board ===================== */
+function UnitCard({
+  u,
+  onClick,
+  hl,
+  active,
+  refCb,
+}: {
+  u: UnitVM;
+  onClick?: () => void;
+  hl?: "attacker" | "target";
+  active?: boolean;
+  refCb?: (el: HTMLDivElement | null) => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`relative rounded-xl p-1 border ${
+        hl === "attacker" ? "border-emerald-400" : hl === "target" ? "border-rose-400" : "border-white/10"
+      } ${active ? "ring-2 ring-amber-300 -translate-y-1" : "opacity-80"}`}
+    >
+      <div ref={refCb} className="relative" style={{ width: FRAME_W, height: FRAME_H }}>
+        <CharacterCardFramed u={u} />
+      </div>
+      {active && (
+        <span className="absolute -top-2 left-1/2 -translate-x-1/2 rounded-full bg-amber-300 px-2 text-[10px] font-semibold text-black">
+          ACTIVE
+        </span>
+      )}
+    </button>
+  );
+}
+function EmptySlot() {
+  return (
+    <div
+      className="rounded-xl border border-dashed border-white/20 bg-transparent/10 grid place-items-center text-xs opacity-50"
+      style={{ width: FRAME_W, height: FRAME_H }}
+    >
+      empty
+    </div>
+  );
+}
+export function BoardRow({
+  units,
+  onPick,
+  pickIndex,
+  pickType,
+  active,
+  refsArray,
+}: {
+  units: UnitVM[];
+  onPick?: (i: number) => void;
+  pickIndex?: number | null;
+  pickType?: "attacker" | "target";
+  /** board index of the active character */
+  active?: number;
+  refsArray?: React.MutableRefObject<(HTMLDivElement | null)[]>;
+}) {
+  return (
+    <div className="flex justify-center gap-3 flex-wrap">
+      {Array.from({ length: BOARD_SLOTS }, (_, i) => {
+        const u = units[i];
+        if (!u) return <EmptySlot key={`e-${i}`} />;
+        const hl = pickIndex === i ? (pickType === "attacker" ? "attacker" : "target") : undefined;
+        const cb = (el: HTMLDivElement | null) => {
+          if (refsArray) refsArray.current[i] = el;
+        };
+        return (
+          <UnitCard key={`${u.code}-${i}`} u={u} onClick={() => onPick?.(i)} hl={hl} active={active === i} refCb={cb} />
+        );
+      })}
+    </div>
+  );
+}
+
+export function SupportsRow({ supports }: { supports: SupportVM[] }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs opacity-60 w-16">Supports</span>
+      {Array.from({ length: SUPPORT_SLOTS }, (_, i) => {
+        const sup = supports[i];
+        if (!sup) {
+          return <div key={`s-${i}`} className="w-16 h-24 rounded-md border border-dashed border-white/15" />;
+        }
+        return (
+          <div
+            key={`${sup.code}-${i}`}
+            className="relative w-16 h-24 rounded-md overflow-hidden border border-white/20"
+            title={supportOf(sup.code)?.text ?? sup.code}
+          >
+            <CardBase code={sup.code} />
+            <div className="absolute right-1 bottom-1 text-[11px] bg-black/70 rounded px-1 text-white tabular-nums">
+              ×{sup.uses}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/* ===================== match end ===================== */
+export const END_REASON_TEXT: Record<MatchEndReason, string> = {
+  hero: "Hero defeated",
+  wipe: "All units defeated",
+  concede: "Conceded",
+  timeout: "Timed out",
+};
+
+/* ===================== battle log ===================== */
+function describeEvent(e: LogEntry["event"], who: (s: Side) => string): string {
+  const name = (code: string) => codeToPrettyName(code);
+  switch (e.type) {
+    case "gameStarted":
+      return `${who(e.first)} goes first`;
+    case "cardDrawn":
+      return e.code ? `${who(e.side)} drew ${name(e.code)}` : `${who(e.side)} drew a card`;
+    case "cardBurned":
+      return `${who(e.side)}'s hand is full — ${name(e.code)} burned`;
+    case "fatigue":
+      return `${who(e.side)} is out of cards — fatigue ${e.amount}`;
+    case "cardPlayed":
+      return `${who(e.side)} played ${name(e.code)}`;
+    case "unitDeployed":
+      return `${who(e.side)} deployed ${name(e.code)}`;
+    case "supportPlaced":
+      return `${who(e.side)} placed ${name(e.code)}`;
+    case "supportTriggered":
+      return `${name(e.code)} triggered (${e.uses} left)`;
+    case "supportDiscarded":
+      return `${name(e.code)} was used up`;
+    case "cardDiscarded":
+      return `${who(e.side)} discarded ${name(e.code)} for ∞`;
+    case "mulliganChosen":
+      return `${who(e.side)} chose their mulligan`;
+    case "mulliganDone":
+      return `${who(e.side)} swapped ${e.n} ${e.n === 1 ? "card" : "cards"}`;
+    case "diceRolled": {
+      const n = e.dice ? Object.values(e.dice).reduce((a, b) => a + b, 0) : null;
+      return `${who(e.side)} ${e.reroll ? "rerolled" : "rolled"}${n != null ? ` ${n} dice` : " dice"}`;
+    }
+    case "diceConfirmed":
+      return `${who(e.side)} confirmed dice`;
+    case "diceGained":
+      return `${who(e.side)} gained ${e.n} ${e.element} ${e.n === 1 ? "die" : "dice"}`;
+    case "diceSpent":
+      return `${who(e.side)} spent ${Object.values(e.dice).reduce((a, b) => a + b, 0)} dice`;
+    case "attack":
+      return `${name(e.attacker)} used ${e.ability ?? "Basic Attack"}`;
+    case "damage": {
+      const target = e.target === "hero" ? `${who(e.side)}'s hero` : name(e.target);
+      const extra = [e.blocked ? `${e.blocked} blocked` : "", e.source ? STATUS_INFO[e.source].label : ""]
+        .filter(Boolean)
+        .join(", ");
+      return `${target} took ${e.amount} damage${extra ? ` (${extra})` : ""}`;
+    }
+    case "statusApplied":
+      return `${name(e.target)} gained ${e.stacks} ${STATUS_INFO[e.status].label}`;
+    case "statusExpired":
+      return `${STATUS_INFO[e.status].label} wore off ${name(e.target)}`;
+    case "reaction":
+      return `${e.reaction}! on ${name(e.target)}`;
+    case "heal":
+      return `${e.target === "hero" ? `${who(e.side)}'s hero` : name(e.target)} healed ${e.amount}`;
+    case "unitDefeated":
+      return `${name(e.code)} was defeated`;
+    case "activeSwitched":
+      return `${who(e.side)} switched to ${name(e.code)}${e.forced ? "" : " (1 die)"}`;
+    case "turnPassed":
+      return `Turn → ${who(e.to)}`;
+    case "phaseEnded":
+      return `${who(e.side)} ended the phase`;
+    case "timedOut":
+      return `${who(e.side)} ran out of time (${e.strikes})`;
+    case "phaseAdvanced":
+      return `— Phase #${e.phaseNo} —`;
+    case "gameOver":
+      return `${who(e.winner)} won (${END_REASON_TEXT[e.reason]})`;
+    case "rematchAccepted":
+      return `${who(e.side)} wants a rematch`;
+  }
+}
+
+export function BattleLog({ log, who }: { log: LogEntry[]; who: (s: Side) => string }) {
+  const boxRef = useRef<HTMLDivElement | null>(null);
+  const last = log.at(-1)?.seq ?? 0;
+
+  // follow the newest line
+  useEffect(() => {
+    const el = boxRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [last]);
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-black/20 p-4">
+      <div className="font-medium mb-2">Battle Log</div>
+      <div ref={boxRef} className="h-48 overflow-y-auto text-sm space-y-0.5 pr-2">
+        {log.length === 0 ? (
+          <div className="opacity-60">Nothing yet</div>
+        ) : (
+          log.map((entry) => (
+            <div key={entry.seq} className={entry.event.type === "phaseAdvanced" ? "opacity-60 text-center" : ""}>
+              {describeEvent(entry.event, who)}
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
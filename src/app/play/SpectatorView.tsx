@@ -0,0 +1,68 @@
+// src/app/play/SpectatorView.tsx
+"use client";
+
+import React from "react";
+import type { ClientState } from "@/hooks/useGame";
+import type { Side } from "@/lib/game/types";
+import { BattleLog, BoardRow, Pill, SupportsRow } from "./Board";
+
+/* ===================== one side, counts only ===================== */
+function WatchedSide({ cs, side, name }: { cs: ClientState; side: Side; name: string }) {
+  const turn = cs.mode === "play" && cs.phaseActor === side;
+  return (
+    <section className={`rounded-3xl border p-5 bg-black/20 ${turn ? "border-amber-300/60" : "border-white/10"}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="font-semibold">
+          {name} <span className="opacity-60 text-sm">({side === "p1" ? "Host" : "Player"})</span>
+          {turn && <span className="ml-2 text-xs text-amber-300">acting</span>}
+        </div>
+        <span className="flex gap-2">
+          <Pill>Hero: {cs.hero?.[side] ?? 0}</Pill>
+          <Pill>Hand: {cs.handCount?.[side] ?? 0}</Pill>
+          <Pill>Deck: {cs.deckCount?.[side] ?? 0}</Pill>
+          <Pill>Dice: {cs.diceCount?.[side] ?? 0}</Pill>
+        </span>
+      </div>
+      <BoardRow units={cs.board?.[side] ?? []} active={cs.active?.[side]} />
+      <div className="mt-3">
+        <SupportsRow supports={cs.supports?.[side] ?? []} />
+      </div>
+    </section>
+  );
+}
+
+/** read-only table for spectators: both hands hidden, the feed may run `cs.delayed` seconds behind */
+export default function SpectatorView({ cs, onLeave }: { cs: ClientState; onLeave: () => void }) {
+  const name = (s: Side) => cs.players?.[s]?.name || (s === "p1" ? "Host" : "Player");
+  return (
+    <>
+      <section className="rounded-2xl border border-white/10 bg-black/10 p-4 flex flex-wrap items-center gap-3 text-sm">
+        <span className="font-semibold">👁 Spectating</span>
+        <Pill>{cs.delayed ? `${cs.delayed}s delay` : "Live"}</Pill>
+        {cs.mode !== "lobby" && (
+          <span>
+            Phase #{cs.phaseNo ?? 1} • Turn: <b>{name(cs.phaseActor)}</b>
+          </span>
+        )}
+        {cs.series && (
+          <span className="tabular-nums opacity-80">
+            Series: {cs.series.p1} – {cs.series.p2}
+          </span>
+        )}
+        <button onClick={onLeave} className="ml-auto px-3 py-1 rounded bg-neutral-700">
+          Stop watching
+        </button>
+      </section>
+
+      {cs.mode === "lobby" ? (
+        <div className="opacity-70">Waiting for both players to get ready…</div>
+      ) : (
+        <>
+          <WatchedSide cs={cs} side="p2" name={name("p2")} />
+          <WatchedSide cs={cs} side="p1" name={name("p1")} />
+          <BattleLog log={cs.log ?? []} who={name} />
+        </>
+      )}
+    </>
+  );
+}
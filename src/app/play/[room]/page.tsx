@@ -3,277 +3,28 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import Image from "next/image";
 import { useParams, useRouter } from "next/navigation";
+import { useGame, type ClientState } from "@/hooks/useGame";
+import type { DicePool, MatchEndReason, Side, UnitVM } from "@/lib/game/types";
+import { abilityOf } from "@/lib/game/abilities";
+import { BOARD_SLOTS } from "@/lib/game/cards";
+import { STATUS_INFO } from "@/lib/game/statuses";
+import { SUPPORT_SLOTS, supportOf } from "@/lib/game/supports";
 import {
-  useGame,
-  type ClientState,
-  type Side,
-  type DicePool,
-  type UnitVM,
-} from "@/hooks/useGame";
-import cardsDataJson from "@/data/cards.json";
-
-/* ===================== types from cards.json ===================== */
-type CharacterCard = {
-  char_id: number;
-  code: string;
-  name: string;
-  element: string;
-  attack: number;
-  hp: number;
-  cost: number;
-  abilityCode: string;
-  art: string;
-};
-type SupportCard = {
-  id: number;
-  code: string;
-  name: string;
-  element: string;
-  cost: number;
-  text: string;
-  art: string;
-};
-type EventCard = {
-  id: number;
-  code: string;
-  name: string;
-  element: string;
-  cost: number;
-  text: string;
-  art: string;
-};
-type CardsData = {
-  characters: CharacterCard[];
-  supports: SupportCard[];
-  events: EventCard[];
-};
-const cardsData = cardsDataJson as CardsData;
-
-/* ===================== assets ===================== */
-const ELEMENT_ICON: Record<string, string> = {
-  Pyro: "/dice/pyro.png",
-  Hydro: "/dice/hydro.png",
-  Cryo: "/dice/cryo.png",
-  Electro: "/dice/electro.png",
-  Geo: "/dice/geo.png",
-  Anemo: "/dice/anemo.png",
-  Quantum: "/dice/quantum.png",
-  Imaginary: "/dice/imaginary.png",
-  Neutral: "/dice/neutral.png",
-  Infinite: "/dice/infinite.png",
-};
-
-/* ===================== image helper ===================== */
-function codeToPrettyName(code: string): string {
-  return (code || "")
-    .split("_")
-    .map((p) => p.toLowerCase())
-    .map((s) => s.charAt(0).toUpperCase() + s.slice(1))
-    .join(" ");
-}
-const CHAR_ART = new Map<string, string>(cardsData.characters.map((c) => [c.code.toUpperCase(), c.art]));
-const SUPP_ART = new Map<string, string>(cardsData.supports.map((c) => [c.code.toUpperCase(), c.art]));
-const EVENT_ART = new Map<string, string>(cardsData.events.map((c) => [c.code.toUpperCase(), c.art]));
-function imagePathByCode(code: string): string {
-  const key = code.toUpperCase();
-  if (CHAR_ART.has(key)) return encodeURI(`/char_cards/${CHAR_ART.get(key)!}`);
-  if (SUPP_ART.has(key)) return encodeURI(`/cards/${SUPP_ART.get(key)!}`);
-  if (EVENT_ART.has(key)) return encodeURI(`/cards/${EVENT_ART.get(key)!}`);
-  const file = `${codeToPrettyName(code)}.png`;
-  return encodeURI(`/cards/${file}`);
-}
-
-/* ===================== small UI bits ===================== */
-function Pill({ children }: { children: React.ReactNode }) {
-  return <span className="px-2 py-0.5 rounded bg-neutral-800 text-xs">{children}</span>;
-}
-function sortWithPriority(keys: string[], priority: string[]) {
-  const at = (k: string) => {
-    const i = priority.indexOf(k);
-    return i < 0 ? Number.MAX_SAFE_INTEGER : i;
-  };
-  return [...keys].sort((a, b) => at(a) - at(b) || a.localeCompare(b));
-}
-function DiceList({ dice, priority }: { dice: DicePool; priority: string[] }) {
-  const entries = Object.entries(dice as Record<string, number>) as [string, number][];
-  const items = entries
-    .filter(([, n]) => (n ?? 0) > 0)
-    .sort(([a], [b]) => (sortWithPriority([a, b], priority)[0] === a ? -1 : 1));
-
-  if (!items.length) return <div className="opacity-60 text-sm">—</div>;
-  return (
-    <div className="flex flex-wrap gap-2 text-xs">
-      {items.map(([k, v]) => (
-        <Pill key={k}>
-          {k}: {v}
-        </Pill>
-      ))}
-    </div>
-  );
-}
-function DiceTray({ dice, priority }: { dice: DicePool; priority: string[] }) {
-  const entries = Object.entries(dice as Record<string, number>) as [string, number][];
-  const arr: { el: string; id: string }[] = [];
-  for (const [el, n] of entries) {
-    for (let i = 0; i < (n ?? 0); i++) arr.push({ el, id: `${el}-${i}` });
-  }
-  arr.sort((a, b) => (sortWithPriority([a.el, b.el], priority)[0] === a.el ? -1 : 1));
-  return (
-    <div className="rounded-lg border border-white/10 bg-black/30 p-3">
-      {arr.length ? (
-        <div className="grid grid-cols-5 sm:grid-cols-6 md:grid-cols-5 lg:grid-cols-6 gap-2">
-          {arr.map((d) => (
-            <div
-              key={d.id}
-              className="aspect-square rounded-md bg-neutral-900/40 border border-white/10 grid place-items-center"
-              title={d.el}
-            >
-              <Image
-                src={ELEMENT_ICON[d.el] ?? ELEMENT_ICON.Neutral}
-                alt={d.el}
-                width={48}
-                height={48}
-                className="w-10 h-10 object-contain"
-              />
-            </div>
-          ))}
-        </div>
-      ) : (
-        <div className="h-28 grid place-items-center text-sm opacity-70">No dice</div>
-      )}
-    </div>
-  );
-}
-
-/* ===================== framed character card ===================== */
-const FRAME_W = 188;
-const FRAME_H = 277;
-const FRAME_SRC = "/card_frame.png";
-const POS = {
-  el: { cx: 83.4, cy: 12, d: 18.6 },
-  atk: { cx: 13.5, cy: 89, d: 19.4 },
-  hp: { cx: 85.8, cy: 89, d: 19.4 },
-  name: { cx: 50, cy: 72, w: 73, h: 8.2 },
-};
-const textShadow = "0 1px 2px rgba(0,0,0,.9),0 0 2px rgba(0,0,0,.7)";
-
-function CardBase({ code }: { code: string }) {
-  const src = imagePathByCode(code);
-  return <Image src={src} alt={code} fill className="object-cover rounded-lg" unoptimized />;
-}
-function CircleOverlay({ cx, cy, dPct, children }: { cx: number; cy: number; dPct: number; children: React.ReactNode }) {
-  const size = `${dPct}%`;
-  return (
-    <div
-      className="absolute grid place-items-center"
-      style={{ width: size, height: size, left: `${cx}%`, top: `${cy}%`, transform: "translate(-50%,-50%)" }}
-    >
-      {children}
-    </div>
-  );
-}
-function NameOverlay({ cx, cy, wPct, hPct, children }: { cx: number; cy: number; wPct: number; hPct: number; children: React.ReactNode }) {
-  return (
-    <div
-      className="absolute flex items-center justify-center text-center truncate"
-      style={{ width: `${wPct}%`, height: `${hPct}%`, left: `${cx}%`, top: `${cy}%`, transform: "translate(-50%,-50%)" }}
-    >
-      {children}
-    </div>
-  );
-}
-function CharacterCardFramed({ u }: { u: UnitVM }) {
-  const icon = ELEMENT_ICON[u.element] ?? ELEMENT_ICON.Neutral;
-  const display = u.code.replaceAll("_", " ");
-  return (
-    <div className="relative select-none" style={{ width: FRAME_W, height: FRAME_H }}>
-      <CardBase code={u.code} />
-      <Image src={FRAME_SRC} alt="frame" fill className="pointer-events-none object-cover" unoptimized />
-      <CircleOverlay cx={POS.el.cx} cy={POS.el.cy} dPct={POS.el.d}>
-        <Image src={icon} alt={u.element} fill sizes="100%" className="object-contain pointer-events-none" unoptimized />
-      </CircleOverlay>
-      <CircleOverlay cx={POS.atk.cx} cy={POS.atk.cy} dPct={POS.atk.d}>
-        <span className="font-semibold text-white tabular-nums" style={{ fontSize: "22px", textShadow }}>
-          {u.attack}
-        </span>
-      </CircleOverlay>
-      <CircleOverlay cx={POS.hp.cx} cy={POS.hp.cy} dPct={POS.hp.d}>
-        <span className="font-semibold text-white tabular-nums" style={{ fontSize: "22px", textShadow }}>
-          {u.hp}
-        </span>
-      </CircleOverlay>
-      <NameOverlay cx={POS.name.cx} cy={POS.name.cy} wPct={POS.name.w} hPct={POS.name.h}>
-        <span className="font-medium" style={{ color: "#000", fontSize: 12, lineHeight: 1.05, letterSpacing: ".02em" }}>
-          {display}
-        </span>
-      </NameOverlay>
-      <div className="absolute left-2 top-2 text-[11px] bg-black/60 rounded px-1 text-white">ULT {(u.gauge ?? 0)}/3</div>
-    </div>
-  );
-}
-
-/* ===================== board ===================== */
-function UnitCard({
-  u,
-  onClick,
-  hl,
-  refCb,
-}: {
-  u: UnitVM;
-  onClick?: () => void;
-  hl?: "attacker" | "target";
-  refCb?: (el: HTMLDivElement | null) => void;
-}) {
-  return (
-    <button
-      onClick={onClick}
-      className={`rounded-xl p-1 border ${
-        hl === "attacker" ? "border-emerald-400" : hl === "target" ? "border-rose-400" : "border-white/10"
-      }`}
-    >
-      <div ref={refCb} className="relative" style={{ width: FRAME_W, height: FRAME_H }}>
-        <CharacterCardFramed u={u} />
-      </div>
-    </button>
-  );
-}
-function EmptySlot() {
-  return (
-    <div
-      className="rounded-xl border border-dashed border-white/20 bg-transparent/10 grid place-items-center text-xs opacity-50"
-      style={{ width: FRAME_W, height: FRAME_H }}
-    >
-      empty
-    </div>
-  );
-}
-function BoardRow({
-  units,
-  onPick,
-  pickIndex,
-  pickType,
-  refsArray,
-}: {
-  units: UnitVM[];
-  onPick?: (i: number) => void;
-  pickIndex?: number | null;
-  pickType?: "attacker" | "target";
-  refsArray?: React.MutableRefObject<(HTMLDivElement | null)[]>;
-}) {
-  return (
-    <div className="flex justify-center gap-3 flex-wrap">
-      {[0, 1, 2].map((i) => {
-        const u = units[i];
-        if (!u) return <EmptySlot key={`e-${i}`} />;
-        const hl = pickIndex === i ? (pickType === "attacker" ? "attacker" : "target") : undefined;
-        const cb = (el: HTMLDivElement | null) => {
-          if (refsArray) refsArray.current[i] = el;
-        };
-        return <UnitCard key={`${u.code}-${i}`} u={u} onClick={() => onPick?.(i)} hl={hl} refCb={cb} />;
-      })}
-    </div>
-  );
-}
+  BattleLog,
+  BoardRow,
+  CARD_COST,
+  CHAR_ABILITY,
+  CardBase,
+  DiceList,
+  DiceTray,
+  ELEMENT_ICON,
+  END_REASON_TEXT,
+  FRAME_H,
+  FRAME_W,
+  Pill,
+  SupportsRow,
+} from "../Board";
+import SpectatorView from "../SpectatorView";
 
 /* ===================== arrow overlay ===================== */
 function ArrowOverlay({
@@ -344,6 +95,135 @@ function CoinOverlay({
     </div>
   );
 }
+function RollOverlay({
+  dice,
+  priority,
+  rerollsLeft,
+  confirmed,
+  onReroll,
+  onConfirm,
+}: {
+  dice: DicePool;
+  priority: string[];
+  rerollsLeft: number;
+  confirmed: boolean;
+  onReroll: (pick: DicePool) => void;
+  onConfirm: () => void;
+}) {
+  const [picked, setPicked] = useState<Set<string>>(() => new Set());
+  const toggle = (id: string) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  const pickPool = (): DicePool => {
+    const out: DicePool = {};
+    for (const id of picked) {
+      const el = id.slice(0, id.lastIndexOf("-"));
+      out[el] = (out[el] ?? 0) + 1;
+    }
+    return out;
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm grid place-items-center">
+      <div className="w-[min(92vw,520px)] rounded-2xl border border-white/10 bg-neutral-900/90 p-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="text-lg font-semibold">Roll Phase</div>
+          <div className="text-sm opacity-70">Rerolls left: {rerollsLeft}</div>
+        </div>
+        {confirmed ? (
+          <>
+            <DiceTray dice={dice} priority={priority} />
+            <div className="mt-4 text-center text-sm opacity-80">รอคู่ต่อสู้ยืนยันลูกเต๋า…</div>
+          </>
+        ) : (
+          <>
+            <DiceTray dice={dice} priority={priority} selected={picked} onToggle={rerollsLeft > 0 ? toggle : undefined} />
+            <p className="text-xs opacity-60 mt-2">เลือกลูกเต๋าที่ต้องการทอยใหม่ แล้วกด Reroll หรือกด Confirm เพื่อใช้ชุดนี้</p>
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                className="px-4 py-2 rounded bg-amber-700 disabled:opacity-40"
+                disabled={rerollsLeft <= 0 || picked.size === 0}
+                onClick={() => {
+                  onReroll(pickPool());
+                  setPicked(new Set());
+                }}
+              >
+                Reroll ({picked.size})
+              </button>
+              <button className="px-4 py-2 rounded bg-emerald-600" onClick={onConfirm}>
+                Confirm
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+function MulliganOverlay({
+  hand,
+  done,
+  onConfirm,
+}: {
+  hand: string[];
+  done: boolean;
+  onConfirm: (indices: number[]) => void;
+}) {
+  const [picked, setPicked] = useState<Set<number>>(() => new Set());
+  const toggle = (i: number) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(i)) next.delete(i);
+      else next.add(i);
+      return next;
+    });
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/70 backdrop-blur-sm grid place-items-center">
+      <div className="w-[min(94vw,760px)] rounded-2xl border border-white/10 bg-neutral-900/90 p-5">
+        <div className="flex items-center justify-between mb-3">
+          <div className="text-lg font-semibold">Mulligan</div>
+          <div className="text-sm opacity-70">Selected: {picked.size}</div>
+        </div>
+        <div className="flex flex-wrap justify-center gap-2">
+          {hand.map((code, i) => {
+            const on = picked.has(i);
+            return (
+              <button
+                key={`${code}-${i}`}
+                disabled={done}
+                onClick={() => toggle(i)}
+                className={`relative w-24 h-36 rounded-md overflow-hidden border ${
+                  on ? "border-amber-400 ring-2 ring-amber-400/60" : "border-white/20"
+                }`}
+                title={code}
+              >
+                <CardBase code={code} />
+                {on && <div className="absolute inset-0 bg-black/50 grid place-items-center text-2xl">↺</div>}
+              </button>
+            );
+          })}
+        </div>
+        {done ? (
+          <div className="mt-4 text-center text-sm opacity-80">รอคู่ต่อสู้เลือกการ์ด…</div>
+        ) : (
+          <>
+            <p className="text-xs opacity-60 mt-3">เลือกการ์ดที่ต้องการสับกลับเข้ากองแล้วจั่วใหม่ (ได้ครั้งเดียว)</p>
+            <div className="mt-4 flex justify-end gap-2">
+              <button className="px-4 py-2 rounded bg-emerald-600" onClick={() => onConfirm([...picked])}>
+                {picked.size > 0 ? `Redraw ${picked.size}` : "Keep hand"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
 function PhaseOverlay({ show, phase }: { show: boolean; phase: number }) {
   if (!show) return null;
   return (
@@ -362,6 +242,123 @@ function PhaseOverlay({ show, phase }: { show: boolean; phase: number }) {
   );
 }
 
+function ReactionToast({ reaction, you }: { reaction: ClientState["lastReaction"] | null; you: Side | null }) {
+  if (!reaction) return null;
+  const onYours = you != null && reaction.side === you;
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
+      <div
+        className={`px-4 py-2 rounded-xl font-semibold shadow-lg ${
+          onYours ? "bg-rose-700/90" : "bg-amber-500/90 text-black"
+        }`}
+      >
+        {reaction.reaction}! <span className="font-normal">on {reaction.target.replaceAll("_", " ")}</span>
+      </div>
+    </div>
+  );
+}
+
+/** an action the server refused because the room had already moved on */
+function ConflictToast({ message, onClose }: { message: string | null; onClose: () => void }) {
+  useEffect(() => {
+    if (!message) return;
+    const t = setTimeout(onClose, 4000);
+    return () => clearTimeout(t);
+  }, [message, onClose]);
+  if (!message) return null;
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50">
+      <button onClick={onClose} className="px-4 py-2 rounded-xl bg-neutral-800/95 border border-amber-400/60 text-sm shadow-lg">
+        ⚠ {message}
+      </button>
+    </div>
+  );
+}
+
+function TurnTimer({ clock, you }: { clock: ClientState["clock"]; you: Side | null }) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const iv = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(iv);
+  }, []);
+  if (!clock) return null;
+
+  const inBank = now >= clock.turnEndsAt;
+  const left = Math.max(0, (inBank ? clock.deadline : clock.turnEndsAt) - now);
+  const sec = Math.ceil(left / 1000);
+  const mmss = `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, "0")}`;
+  const on = clock.on;
+  const shared = on === "roll" || on === "mulligan";
+  const mine = shared || on === you;
+  const bankNote = !inBank && !shared ? ` +${Math.ceil(clock.bank[on] / 1000)}s` : "";
+  return (
+    <span
+      className={`px-2 py-0.5 rounded text-sm tabular-nums ${
+        inBank || sec <= 10 ? "bg-rose-700" : mine ? "bg-emerald-800" : "bg-neutral-800"
+      }`}
+      title={inBank ? "Using time bank" : "Turn time (+ bank)"}
+    >
+      ⏱ {mmss}
+      {inBank ? " bank" : bankNote}
+    </span>
+  );
+}
+
+function ResultOverlay({
+  result,
+  you,
+  winnerName,
+  series,
+  rematch,
+  onExit,
+  onReplay,
+  onRematch,
+}: {
+  result: { winner: Side; reason: MatchEndReason } | undefined;
+  you: Side | null;
+  winnerName: string;
+  series?: Record<Side, number>;
+  rematch?: Record<Side, boolean>;
+  onExit: () => void;
+  onReplay: () => void;
+  onRematch: () => void;
+}) {
+  if (!result) return null;
+  const title = you ? (result.winner === you ? "Victory" : "Defeat") : `${winnerName} wins`;
+  const foe: Side | null = you === "p1" ? "p2" : you === "p2" ? "p1" : null;
+  const asked = !!(you && rematch?.[you]);
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm grid place-items-center">
+      <div className="rounded-2xl border border-white/10 bg-neutral-900/90 px-10 py-8 text-center">
+        <div className={`text-3xl font-bold ${you && result.winner !== you ? "text-rose-400" : "text-emerald-400"}`}>
+          {title}
+        </div>
+        <div className="mt-2 text-sm opacity-80">{END_REASON_TEXT[result.reason]}</div>
+        {you && <div className="mt-1 text-sm opacity-60">Winner: {winnerName}</div>}
+        {series && (
+          <div className="mt-2 text-sm tabular-nums">
+            Series: {series.p1} – {series.p2}
+          </div>
+        )}
+        {foe && rematch?.[foe] && !asked && <div className="mt-2 text-sm text-amber-300">Opponent wants a rematch</div>}
+        <div className="mt-5 flex justify-center gap-2">
+          {you && (
+            <button onClick={onRematch} disabled={asked} className="px-4 py-2 rounded bg-sky-700 disabled:opacity-50">
+              {asked ? "Waiting for opponent…" : "Rematch"}
+            </button>
+          )}
+          <button onClick={onReplay} className="px-4 py-2 rounded bg-neutral-700">
+            Watch replay
+          </button>
+          <button onClick={onExit} className="px-4 py-2 rounded bg-emerald-600">
+            กลับหน้าแรก
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /* ===================== PAGE ===================== */
 export default function PlayRoomPage() {
   const router = useRouter();
@@ -369,9 +366,30 @@ export default function PlayRoomPage() {
   const roomId = useMemo(() => String(params.room || "").toUpperCase(), [params.room]);
 
   const game = useGame(roomId);
-  const { role, state, ready, endPhase, playCard, combat, discardForInfinite, ackCoin } = game;
+  const {
+    role,
+    state,
+    error,
+    clearError,
+    ready,
+    endPhase,
+    endTurn,
+    playCard,
+    combat,
+    discardForInfinite,
+    switchActive,
+    ackCoin,
+    mulligan,
+    rerollDice,
+    confirmDice,
+    concede,
+    rematch,
+    spectate,
+    stopSpectating,
+  } = game;
 
   const cs: ClientState | null = state ?? null;
+  const watching = !!cs?.watching;
 
   const yourSide: Side | null = role === "host" ? "p1" : role === "player" ? "p2" : null;
   const foeSide: Side | null = yourSide === "p1" ? "p2" : yourSide === "p2" ? "p1" : null;
@@ -393,6 +411,12 @@ export default function PlayRoomPage() {
     return Array.from(s);
   }, [yourSide, cs?.board]);
 
+  // only the active character attacks; attacks land on the foe's active one unless you pick another
+  const myActive = (yourSide && cs?.active?.[yourSide]) || 0;
+  const foeActive = (foeSide && cs?.active?.[foeSide]) || 0;
+  const mustSwitch = !!yourSide && !!cs?.pendingSwitch?.includes(yourSide);
+  const foeSwitching = !!foeSide && !!cs?.pendingSwitch?.includes(foeSide);
+
   const attUnit: UnitVM | null =
     yourSide != null && attacker != null ? cs?.board?.[yourSide]?.[attacker] ?? null : null;
 
@@ -401,16 +425,28 @@ export default function PlayRoomPage() {
   const canSpendEl = (el: string, need: number) =>
     ((yourDice as Record<string, number>)[el] ?? 0) + ((yourDice as Record<string, number>).Infinite ?? 0) >= need;
 
-  const canBasic = !!attUnit && haveAny(1);
-  const canSkill = !!attUnit && canSpendEl(attUnit.element, 3);
-  const canUlt = !!attUnit && (attUnit.gauge ?? 0) >= 3 && canSpendEl(attUnit.element, 5);
+  const canPayCard = (code: string) => {
+    const c = CARD_COST.get(code.toUpperCase());
+    if (!c || c.cost <= 0) return true;
+    return c.element === "Neutral" ? haveAny(c.cost) : canSpendEl(c.element, c.cost);
+  };
+
+  const attAbility = attUnit ? abilityOf(CHAR_ABILITY.get(attUnit.code.toUpperCase())) : null;
+
+  const attFrozen = !!attUnit?.statuses?.some((st) => st.kind === "freeze" && st.stacks > 0);
+
+  const attIsActive = attacker === myActive;
+  const canBasic = !!attUnit && attIsActive && !attFrozen && haveAny(1);
+  const canSkill = !!attUnit && attIsActive && !attFrozen && canSpendEl(attUnit.element, 3);
+  const canUlt =
+    !!attUnit && attIsActive && !attFrozen && (attUnit.gauge ?? 0) >= 3 && canSpendEl(attUnit.element, 5);
+  const canSwitch = !!attUnit && (mustSwitch || (!attIsActive && haveAny(1)));
+  const aimAt = target ?? (foeSide && cs?.board?.[foeSide]?.length ? foeActive : null);
 
   const onCommit = async (mode: "basic" | "skill" | "ult") => {
     if (yourSide == null || attacker == null) return;
-    const foeCount = foeSide ? (cs?.board?.[foeSide]?.length ?? 0) : 0;
-    if (foeCount > 0 && target == null) return;
     try {
-      await combat(attacker, target, mode);
+      await combat(attacker, aimAt, mode);
     } catch (err: unknown) {
       console.error("combat failed:", err);
       alert("โจมตีไม่สำเร็จ ดู console สำหรับรายละเอียด");
@@ -418,13 +454,63 @@ export default function PlayRoomPage() {
     setTarget(null);
   };
 
-  /* ---------- coin overlay (ครั้งเดียว) ---------- */
+  const onSwitch = async () => {
+    if (attacker == null) return;
+    try {
+      await switchActive(attacker);
+    } catch (err: unknown) {
+      console.error("switch failed:", err);
+      alert("เปลี่ยนตัวไม่สำเร็จ ดู console สำหรับรายละเอียด");
+    }
+    setTarget(null);
+  };
+
+  const onPlayCard = async (index: number) => {
+    try {
+      await playCard(index);
+    } catch (err: unknown) {
+      console.error("playCard failed:", err);
+      alert(`เล่นการ์ดไม่สำเร็จ: ${err instanceof Error ? err.message : "unknown"}`);
+    }
+  };
+
+  const onDiscard = async (index: number) => {
+    try {
+      await discardForInfinite(index);
+    } catch (err: unknown) {
+      console.error("discard failed:", err);
+      alert(`ทิ้งการ์ดไม่สำเร็จ: ${err instanceof Error ? err.message : "unknown"}`);
+    }
+  };
+
+  // after ending the phase, an opponent's attack hands the turn back; passing it is all that's left
+  const onEnd = async () => {
+    try {
+      await (alreadyEnded ? endTurn() : endPhase());
+    } catch (err: unknown) {
+      console.error("end failed:", err);
+      alert("จบเทิร์นไม่สำเร็จ ดู console สำหรับรายละเอียด");
+    }
+  };
+
+  const onConcede = async () => {
+    if (!confirm("ยอมแพ้เกมนี้?")) return;
+    try {
+      await concede();
+    } catch (err: unknown) {
+      console.error("concede failed:", err);
+    }
+  };
+
+  /* ---------- coin overlay (ครั้งเดียวต่อแมตช์) ---------- */
   const [coinOpen, setCoinOpen] = useState(false);
   const [coinSpin, setCoinSpin] = useState(false);
   const [coinWinner, setCoinWinner] = useState<Side | null>(null);
   const coinShownRef = useRef(false);
 
   useEffect(() => {
+    // a rematch flips the coin again
+    if (cs?.mode === "finished") coinShownRef.current = false;
     if (!cs || cs.mode !== "play") return;
     if (!cs.coin?.decided) return;
     if (!yourSide) return;
@@ -438,6 +524,31 @@ export default function PlayRoomPage() {
     return () => clearTimeout(t);
   }, [cs, yourSide]);
 
+  /* ---------- reaction toast (new seq only) ---------- */
+  const [reactionShow, setReactionShow] = useState<ClientState["lastReaction"] | null>(null);
+  const reactionSeqRef = useRef<number | null>(null);
+  const lastReaction = cs?.lastReaction;
+  const hasState = !!cs;
+
+  useEffect(() => {
+    if (!hasState) return;
+    const seq = lastReaction?.seq ?? 0;
+    // first snapshot: remember where we are, don't replay an old reaction
+    if (reactionSeqRef.current == null) {
+      reactionSeqRef.current = seq;
+      return;
+    }
+    if (!lastReaction || seq <= reactionSeqRef.current) return;
+    reactionSeqRef.current = seq;
+    setReactionShow(lastReaction);
+  }, [hasState, lastReaction]);
+
+  useEffect(() => {
+    if (!reactionShow) return;
+    const t = setTimeout(() => setReactionShow(null), 1800);
+    return () => clearTimeout(t);
+  }, [reactionShow]);
+
   /* ---------- phase overlay ---------- */
   const [phaseShow, setPhaseShow] = useState(false);
 
@@ -462,10 +573,14 @@ export default function PlayRoomPage() {
   const pInfo = cs?.players ?? {};
   const actorName = actor ? (pInfo[actor]?.name || (actor === "p1" ? "Host" : "Player")) : "-";
   const actorAvatar = actor ? (pInfo[actor]?.avatar || null) : null;
+  const sideName = (s: Side) =>
+    s === yourSide ? "You" : pInfo[s]?.name || (s === "p1" ? "Host" : "Player");
 
   const alreadyEnded = yourSide ? !!cs?.endTurned?.[yourSide] : false;
   const isYourTurn = !!(actor && yourSide && actor === yourSide);
-  const lockActions = !isYourTurn || alreadyEnded;
+  const lockActions = !isYourTurn || alreadyEnded || cs?.mode !== "play" || !!cs?.mulligan || !!cs?.roll || !!cs?.pendingSwitch?.length;
+  const canPass = isYourTurn && alreadyEnded && cs?.mode === "play" && !cs?.pendingSwitch?.length;
+  const coinDone = !coinOpen && !!yourSide && (!!cs?.coinAck?.[yourSide] || !cs?.coin?.decided);
 
   const yourDiceD: DicePool = ((yourSide && cs?.dice?.[yourSide]) || {}) as DicePool;
   const myUnits: UnitVM[] =
@@ -478,12 +593,50 @@ export default function PlayRoomPage() {
       {/* overlays */}
       <CoinOverlay show={coinOpen} spinning={coinSpin} winner={coinWinner} you={yourSide} onDone={onCoinDone} />
       <PhaseOverlay show={phaseShow} phase={cs?.phaseNo ?? 1} />
+      <ReactionToast reaction={reactionShow} you={yourSide} />
+      <ConflictToast message={error} onClose={clearError} />
+      {cs?.mode === "play" && cs.mulligan && yourSide && coinDone && (
+        <MulliganOverlay
+          hand={cs.hand?.[yourSide] ?? []}
+          done={!!cs.mulligan.done[yourSide]}
+          onConfirm={(indices) => mulligan(indices).catch((err) => console.error("mulligan failed:", err))}
+        />
+      )}
+      {cs?.mode === "play" && cs.roll && yourSide && coinDone && (
+        <RollOverlay
+          dice={yourDiceD}
+          priority={yourEls}
+          rerollsLeft={cs.roll.rerolls[yourSide] ?? 0}
+          confirmed={!!cs.roll.confirmed[yourSide]}
+          onReroll={(pick) => rerollDice(pick).catch((err) => console.error("reroll failed:", err))}
+          onConfirm={() => confirmDice().catch((err) => console.error("confirm failed:", err))}
+        />
+      )}
+      {cs?.mode === "finished" && (
+        <ResultOverlay
+          result={cs.result}
+          you={yourSide}
+          winnerName={
+            cs.result
+              ? pInfo[cs.result.winner]?.name || (cs.result.winner === "p1" ? "Host" : "Player")
+              : "-"
+          }
+          series={cs.series}
+          rematch={cs.rematch}
+          onExit={() => router.push("/")}
+          onReplay={() => cs.matchId && router.push(`/replay/${cs.matchId}`)}
+          onRematch={() => rematch().catch((err) => console.error("rematch failed:", err))}
+        />
+      )}
 
       {/* header + Exit inline */}
       <header className="flex items-center justify-between">
         <div className="flex items-center gap-3">
           <button
-            onClick={() => router.push("/")}
+            onClick={() => {
+              if (watching) stopSpectating().catch(() => {});
+              router.push("/");
+            }}
             className="px-4 py-2 rounded bg-red-600 hover:bg-red-500"
             title="กลับหน้าแรก"
           >
@@ -491,16 +644,41 @@ export default function PlayRoomPage() {
           </button>
           <h1 className="text-xl font-semibold">Room: {roomId || "-"}</h1>
         </div>
-        <div className="text-sm opacity-70">You are: {role ?? "-"}</div>
+        <div className="flex items-center gap-3 text-sm">
+          {(cs?.spectators ?? 0) > 0 && (
+            <span className="opacity-70" title="Spectators">
+              👁 {cs?.spectators}
+            </span>
+          )}
+          <span className="opacity-70">You are: {watching ? "spectator" : role ?? "-"}</span>
+        </div>
       </header>
 
       {/* lobby */}
-      {cs?.mode === "lobby" && (
+      {/* spectators get the read-only table (and the lobby while players get ready) */}
+      {cs && watching && <SpectatorView cs={cs} onLeave={() => stopSpectating().catch(() => {})} />}
+
+      {/* a visitor without a seat once the match is running */}
+      {cs && !watching && !yourSide && cs.mode !== "lobby" && (
+        <section className="rounded-2xl border border-white/10 p-6 bg-black/20 flex items-center gap-4">
+          <div className="opacity-80">This match is already running.</div>
+          <button className="px-5 py-2 rounded bg-sky-700" onClick={() => spectate().catch(() => {})}>
+            Watch
+          </button>
+        </section>
+      )}
+
+      {cs?.mode === "lobby" && !watching && (
         <section className="rounded-2xl border border-white/10 p-6 bg-black/20">
           <button className="px-5 py-2 rounded bg-emerald-600" onClick={() => ready()}>
             Ready
           </button>
-          <p className="text-xs opacity-60 mt-2">เริ่มเกม: จั่วมือ 5 ใบ • Dice 10 • เลือกตัวเรา/เป้าหมายก่อนโจมตี</p>
+          {!yourSide && (
+            <button className="ml-2 px-5 py-2 rounded bg-sky-700" onClick={() => spectate().catch(() => {})}>
+              Watch
+            </button>
+          )}
+          <p className="text-xs opacity-60 mt-2">เริ่มเกม: จั่วมือ 5 ใบ • ทอย Dice 10 ลูกทุกเฟส • เลือกตัวเรา/เป้าหมายก่อนโจมตี</p>
 
           <div className="mt-4 flex gap-3">
             <div className="flex-1 rounded-lg border border-white/10 p-3">
@@ -517,8 +695,8 @@ export default function PlayRoomPage() {
         </section>
       )}
 
-      {/* play */}
-      {cs?.mode === "play" && (
+      {/* play (the final board stays visible under the result screen) */}
+      {(cs?.mode === "play" || cs?.mode === "finished") && yourSide && (
         <>
           {/* ARENA */}
           <div ref={arenaRef} className="relative">
@@ -540,29 +718,51 @@ export default function PlayRoomPage() {
                     )}
                   </div>
                 </div>
-                <div className="text-sm opacity-70">
-                  {cs.endTurned?.p1 ? "P1 ended" : "P1 active"} | {cs.endTurned?.p2 ? "P2 ended" : "P2 active"}
+                <div className="flex items-center gap-3 text-sm">
+                  <TurnTimer clock={cs.clock} you={yourSide} />
+                  {yourSide && (cs.timeouts?.[yourSide] ?? 0) > 0 && (
+                    <span className="text-rose-300" title="Too many timeouts forfeit the match">
+                      Timeouts: {cs.timeouts?.[yourSide]}
+                    </span>
+                  )}
+                  <span className="opacity-70">
+                    {cs.endTurned?.p1 ? "P1 ended" : "P1 active"} | {cs.endTurned?.p2 ? "P2 ended" : "P2 active"}
+                  </span>
                 </div>
               </div>
 
               <div className="mt-3 rounded-lg bg-black/30 p-3">
-                <div className="opacity-70 mb-1 text-sm">Opponent Board</div>
+                <div className="flex items-center justify-between mb-1 text-sm">
+                  <span className="opacity-70">Opponent Board</span>
+                  {foeSide && (
+                    <span className="flex gap-2">
+                      <Pill>Hand: {cs.handCount?.[foeSide] ?? 0}</Pill>
+                      <Pill>Deck: {cs.deckCount?.[foeSide] ?? 0}</Pill>
+                      <Pill>Dice: {cs.diceCount?.[foeSide] ?? 0}</Pill>
+                      {(cs.fatigue?.[foeSide] ?? 0) > 0 && <Pill>Fatigue: {cs.fatigue?.[foeSide]}</Pill>}
+                    </span>
+                  )}
+                </div>
                 <BoardRow
                   units={foeUnits}
                   onPick={(i) => setTarget(i)}
-                  pickIndex={target}
+                  pickIndex={attIsActive ? aimAt : target}
                   pickType="target"
+                  active={foeActive}
                   refsArray={foeRefs}
                 />
+                <div className="mt-3">
+                  <SupportsRow supports={(foeSide && cs.supports?.[foeSide]) || []} />
+                </div>
               </div>
             </section>
 
             {/* attack arrow */}
-            {attacker != null && target != null && (
+            {attacker != null && attIsActive && aimAt != null && (
               <ArrowOverlay
                 container={arenaRef.current}
                 from={myRefs.current[attacker] ?? null}
-                to={foeRefs.current[target] ?? null}
+                to={foeRefs.current[aimAt] ?? null}
               />
             )}
           </div>
@@ -570,10 +770,21 @@ export default function PlayRoomPage() {
           {/* controls */}
           <section className="rounded-2xl border border-white/10 bg-black/10 p-4 flex items-center gap-2">
             <div className="text-sm">
-              Attacker: <b>{attacker != null ? `#${attacker + 1}` : "-"}</b> | Target: <b>{target != null ? `#${target + 1}` : "-"}</b>
+              Attacker: <b>{attacker != null ? `#${attacker + 1}` : "-"}</b> | Target: <b>{aimAt != null ? `#${aimAt + 1}` : "Hero"}</b>
               {attUnit && <span className="ml-2 opacity-70">({attUnit.element}, ULT {(attUnit.gauge ?? 0)}/3)</span>}
+              {attFrozen && <span className="ml-2 text-sky-300">{STATUS_INFO.freeze.icon} Frozen</span>}
+              {mustSwitch && <span className="ml-2 text-amber-300">Your active character fell — pick a new one</span>}
+              {foeSwitching && <span className="ml-2 opacity-70">Opponent is picking a new active character…</span>}
             </div>
             <div className="ml-auto flex gap-2">
+              <button
+                className="px-3 py-1 rounded bg-teal-700 disabled:opacity-40"
+                disabled={!canSwitch || (!mustSwitch && lockActions)}
+                onClick={onSwitch}
+                title="Make the selected character active; uses your action"
+              >
+                Switch {mustSwitch ? "(free)" : "(1)"}
+              </button>
               <button
                 className="px-3 py-1 rounded bg-amber-700 disabled:opacity-40"
                 disabled={!canBasic || lockActions}
@@ -585,18 +796,32 @@ export default function PlayRoomPage() {
                 className="px-3 py-1 rounded bg-sky-700 disabled:opacity-40"
                 disabled={!canSkill || lockActions}
                 onClick={() => onCommit("skill")}
+                title={attAbility ? `${attAbility.skill.name}: ${attAbility.skill.text}` : undefined}
               >
-                Skill (3)
+                {attAbility?.skill.name ?? "Skill"} (3)
               </button>
               <button
                 className="px-3 py-1 rounded bg-violet-700 disabled:opacity-40"
                 disabled={!canUlt || lockActions}
                 onClick={() => onCommit("ult")}
+                title={attAbility ? `${attAbility.ult.name}: ${attAbility.ult.text}` : undefined}
+              >
+                {attAbility?.ult.name ?? "Ultimate"} (5)
+              </button>
+              <button
+                className="px-3 py-1 rounded bg-emerald-700 disabled:opacity-40"
+                disabled={alreadyEnded ? !canPass : lockActions}
+                onClick={onEnd}
+                title={alreadyEnded ? "You already ended this phase; pass the turn back" : undefined}
               >
-                Ultimate (5)
+                {alreadyEnded ? "End Turn" : "End Phase"}
               </button>
-              <button className="px-3 py-1 rounded bg-emerald-700 opacity-40 cursor-not-allowed" disabled onClick={() => endPhase()}>
-                End Phase
+              <button
+                className="px-3 py-1 rounded bg-rose-800 disabled:opacity-40"
+                disabled={!yourSide || cs.mode !== "play"}
+                onClick={onConcede}
+              >
+                Concede
               </button>
             </div>
           </section>
@@ -616,40 +841,87 @@ export default function PlayRoomPage() {
                 }}
                 pickIndex={attacker}
                 pickType="attacker"
+                active={myActive}
                 refsArray={myRefs}
               />
             </div>
+            <div className="mt-3 flex justify-center">
+              <SupportsRow supports={(yourSide && cs.supports?.[yourSide]) || []} />
+            </div>
 
             <div className="mt-6 grid grid-cols-12 gap-4">
               {/* hand */}
               <div className="col-span-12 md:col-span-8 rounded-xl border border-white/10 bg-neutral-900/40 p-4">
-                <div className="font-medium mb-2">Your Hand</div>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="font-medium">Your Hand</div>
+                  {yourSide && (
+                    <span className="flex gap-2">
+                      <Pill>
+                        Hand: {cs.handCount?.[yourSide] ?? 0}/{cs.rules?.maxHand ?? "-"}
+                      </Pill>
+                      <Pill>Deck: {cs.deckCount?.[yourSide] ?? 0}</Pill>
+                      {(cs.fatigue?.[yourSide] ?? 0) > 0 && (
+                        <Pill>
+                          <span className="text-rose-300" title="Next empty draw deals one more damage to your hero">
+                            Fatigue: {cs.fatigue?.[yourSide]}
+                          </span>
+                        </Pill>
+                      )}
+                    </span>
+                  )}
+                </div>
                 <div className="flex flex-wrap gap-3">
                   {(yourSide && (cs.hand?.[yourSide]?.length ?? 0) > 0) ? (
-                    cs.hand[yourSide]!.map((code, i) => (
-                      <div key={`${code}-${i}`} className="flex flex-col items-center gap-1">
-                        <div className="relative" style={{ width: FRAME_W, height: FRAME_H }}>
-                          <CardBase code={code} />
-                        </div>
-                        <div className="flex gap-1">
-                          <button
-                            className="px-2 py-1 rounded bg-neutral-700 hover:bg-neutral-600 text-xs disabled:opacity-40"
-                            disabled={lockActions}
-                            onClick={() => playCard(i)}
-                          >
-                            Play
-                          </button>
-                          <button
-                            className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 text-xs disabled:opacity-40"
-                            onClick={() => discardForInfinite(i)}
-                            disabled={lockActions}
-                            title="Discard → ∞"
+                    cs.hand[yourSide]!.map((code, i) => {
+                      const cost = CARD_COST.get(code.toUpperCase());
+                      const affordable = canPayCard(code);
+                      // reserve characters deploy onto the board, supports into their zone
+                      const isChar = CHAR_ABILITY.has(code.toUpperCase());
+                      const boardFull = isChar && (cs.board?.[yourSide]?.length ?? 0) >= BOARD_SLOTS;
+                      const zoneFull =
+                        !!supportOf(code) && (cs.supports?.[yourSide]?.length ?? 0) >= SUPPORT_SLOTS;
+                      return (
+                        <div key={`${code}-${i}`} className="flex flex-col items-center gap-1">
+                          <div
+                            className={`relative ${affordable ? "" : "opacity-50 grayscale"}`}
+                            style={{ width: FRAME_W, height: FRAME_H }}
+                            title={affordable ? undefined : "ลูกเต๋าไม่พอ"}
                           >
-                            Discard → ∞
-                          </button>
+                            <CardBase code={code} />
+                            {cost && (
+                              <div className="absolute left-2 top-2 flex items-center gap-1 rounded bg-black/70 px-1.5 py-0.5 text-white">
+                                <Image
+                                  src={ELEMENT_ICON[cost.element] ?? ELEMENT_ICON.Neutral}
+                                  alt={cost.element}
+                                  width={16}
+                                  height={16}
+                                  className="w-4 h-4 object-contain"
+                                />
+                                <span className="text-sm font-semibold tabular-nums">{cost.cost}</span>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            <button
+                              className="px-2 py-1 rounded bg-neutral-700 hover:bg-neutral-600 text-xs disabled:opacity-40"
+                              disabled={lockActions || !affordable || zoneFull || boardFull}
+                              onClick={() => onPlayCard(i)}
+                              title={boardFull ? "กระดานเต็ม" : zoneFull ? "ช่องซัพพอร์ตเต็ม" : undefined}
+                            >
+                              {isChar ? "Deploy" : "Play"}
+                            </button>
+                            <button
+                              className="px-2 py-1 rounded bg-neutral-800 hover:bg-neutral-700 text-xs disabled:opacity-40"
+                              onClick={() => onDiscard(i)}
+                              disabled={lockActions}
+                              title="Discard → ∞"
+                            >
+                              Discard → ∞
+                            </button>
+                          </div>
                         </div>
-                      </div>
-                    ))
+                      );
+                    })
                   ) : (
                     <div className="text-sm opacity-70">Empty hand</div>
                   )}
@@ -666,6 +938,8 @@ export default function PlayRoomPage() {
               </div>
             </div>
           </section>
+
+          <BattleLog log={cs.log ?? []} who={sideName} />
         </>
       )}
     </main>
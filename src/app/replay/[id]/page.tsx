@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { parseReplay, replayFrames, type Replay } from "@/lib/game/replay";
+import type { RoomState, Side } from "@/lib/game/types";
+import {
+  BattleLog,
+  BoardRow,
+  CardBase,
+  DiceList,
+  END_REASON_TEXT,
+  Pill,
+  SupportsRow,
+} from "../../play/Board";
+
+/* ===================== one side of the table (everything revealed) ===================== */
+function SideView({ room, side, name }: { room: RoomState; side: Side; name: string }) {
+  const hand = room.hand[side] ?? [];
+  return (
+    <section className="rounded-3xl border border-white/10 p-5 bg-black/20">
+      <div className="flex items-center justify-between mb-3">
+        <div className="font-semibold">
+          {name} <span className="opacity-60 text-sm">({side === "p1" ? "Host" : "Player"})</span>
+        </div>
+        <span className="flex gap-2">
+          <Pill>Hero: {room.hero[side]}</Pill>
+          <Pill>Hand: {hand.length}</Pill>
+          <Pill>Deck: {room.deck[side]?.length ?? 0}</Pill>
+        </span>
+      </div>
+      <BoardRow units={room.board[side] ?? []} active={room.active?.[side]} />
+      <div className="mt-3 flex flex-wrap items-start gap-6">
+        <SupportsRow supports={room.supports[side] ?? []} />
+        <div className="flex items-center gap-2">
+          <span className="text-xs opacity-60">Hand</span>
+          {hand.map((code, i) => (
+            <div key={`${code}-${i}`} className="relative w-16 h-24 rounded-md overflow-hidden border border-white/20" title={code}>
+              <CardBase code={code} />
+            </div>
+          ))}
+        </div>
+        <div className="min-w-40">
+          <div className="text-xs opacity-60 mb-1">Dice</div>
+          <DiceList dice={room.dice[side] ?? {}} priority={["Infinite"]} />
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/** a parsed replay and its frames, re-run once when it is loaded (throws if it doesn't re-run) */
+function loadReplay(raw: unknown): { replay: Replay; frames: RoomState[] } {
+  const replay = parseReplay(raw);
+  return { replay, frames: replayFrames(replay) };
+}
+
+/* ===================== PAGE ===================== */
+export default function ReplayPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const matchId = useMemo(() => String(params.id || "").toUpperCase(), [params.id]);
+
+  const [loaded, setLoaded] = useState<{ replay: Replay; frames: RoomState[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+
+  const exportUrl = `/api/game?action=replay&matchId=${encodeURIComponent(matchId)}`;
+
+  useEffect(() => {
+    if (!matchId) return;
+    let alive = true;
+    fetch(exportUrl, { cache: "no-store" })
+      .then(async (res) => {
+        const json = await res.json().catch(() => null);
+        if (!res.ok) throw new Error((json as { error?: string } | null)?.error ?? `HTTP ${res.status}`);
+        return loadReplay(json);
+      })
+      .then((r) => alive && setLoaded(r))
+      .catch((e: unknown) => alive && setError(e instanceof Error ? e.message : "Failed to load replay"));
+    return () => {
+      alive = false;
+    };
+  }, [matchId, exportUrl]);
+
+  // open a downloaded replay instead of the match's
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setLoaded(loadReplay(JSON.parse(await file.text())));
+      setStep(0);
+      setError(null);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Invalid replay file");
+    }
+  };
+
+  const replay = loaded?.replay;
+  const frames = loaded?.frames ?? [];
+  const last = Math.max(0, frames.length - 1);
+  const at = Math.min(step, last);
+  const room = frames[at];
+  const action = replay?.actions[at];
+  const names = replay?.players ?? { p1: "Host", p2: "Player" };
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col gap-6">
+      <div className="flex items-center gap-3">
+        <h1 className="text-xl font-bold">Replay {replay?.matchId ?? replay?.roomId ?? matchId}</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <a href={`${exportUrl}&download=1`} className="px-3 py-1 rounded bg-neutral-700 text-sm">
+            Download JSON
+          </a>
+          <label className="px-3 py-1 rounded bg-neutral-700 text-sm cursor-pointer">
+            Open file…
+            <input type="file" accept="application/json" className="hidden" onChange={(e) => onFile(e.target.files?.[0])} />
+          </label>
+          <button onClick={() => router.push("/")} className="px-3 py-1 rounded bg-rose-600 text-sm">
+            Exit
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="rounded-lg border border-rose-500/40 bg-rose-900/20 p-3 text-sm">{error}</div>}
+      {!error && !room && <div className="opacity-70">Loading replay…</div>}
+
+      {room && (
+        <>
+          {/* step controls */}
+          <section className="rounded-2xl border border-white/10 bg-black/10 p-4 flex flex-wrap items-center gap-3">
+            <button className="px-3 py-1 rounded bg-neutral-700 disabled:opacity-40" disabled={at === 0} onClick={() => setStep(0)}>
+              ⏮
+            </button>
+            <button className="px-3 py-1 rounded bg-neutral-700 disabled:opacity-40" disabled={at === 0} onClick={() => setStep(at - 1)}>
+              ◀
+            </button>
+            <button
+              className="px-3 py-1 rounded bg-neutral-700 disabled:opacity-40"
+              disabled={at === last}
+              onClick={() => setStep(at + 1)}
+            >
+              ▶
+            </button>
+            <button
+              className="px-3 py-1 rounded bg-neutral-700 disabled:opacity-40"
+              disabled={at === last}
+              onClick={() => setStep(last)}
+            >
+              ⏭
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={last}
+              value={at}
+              onChange={(e) => setStep(Number(e.target.value))}
+              className="flex-1 min-w-40"
+            />
+            <div className="text-sm tabular-nums">
+              {at + 1}/{frames.length} · Phase #{room.phaseNo} · <b>{action?.type}</b>
+              {action && "side" in action ? ` (${names[action.side]})` : ""}
+            </div>
+          </section>
+
+          {room.result && (
+            <div className="text-center font-semibold">
+              {names[room.result.winner]} wins — {END_REASON_TEXT[room.result.reason]}
+            </div>
+          )}
+
+          <SideView room={room} side="p2" name={names.p2} />
+          <SideView room={room} side="p1" name={names.p1} />
+
+          <BattleLog log={room.log} who={(s) => names[s]} />
+        </>
+      )}
+    </main>
+  );
+}
@@ -2,28 +2,24 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-
-/* ========================= Shared types (used by page.tsx) ========================= */
-export type Side = "p1" | "p2";
-
-export type DicePool = Record<string, number>;
-
-export type UnitVM = {
-  code: string;
-  element: string;
-  attack: number;
-  hp: number;
-  gauge?: number;
-};
-
-export type PlayerInfo = {
-  userId: string;
-  name?: string | null;
-  avatar?: string | null;
-};
-
+import { useSession } from "next-auth/react";
+import type {
+  DicePool,
+  LogEntry,
+  MatchResult,
+  MulliganPhase,
+  PlayerInfo,
+  RollPhase,
+  RoomRules,
+  Side,
+  SupportVM,
+  TurnClock,
+  UnitVM,
+} from "@/lib/game/types";
+
+/* ========================= Client state (used by page.tsx) ========================= */
 export type ClientState = {
-  mode: "lobby" | "play";
+  mode: "lobby" | "play" | "finished";
   players: Partial<Record<Side, { name: string; avatar: string | null }>>;
   coin: { decided: boolean; winner?: Side };
   coinAck: Record<Side, boolean>;
@@ -32,11 +28,47 @@ export type ClientState = {
   phaseActor: Side;
   endTurned: Record<Side, boolean>;
   hero: Record<Side, number>;
-  dice: Record<Side, DicePool>;
+  /** only your own side; use diceCount for the opponent */
+  dice: Partial<Record<Side, DicePool>>;
+  diceCount: Record<Side, number>;
+  mulligan?: Pick<MulliganPhase, "done">;
+  roll?: RollPhase;
+  supports?: Record<Side, SupportVM[]>;
   board: Record<Side, UnitVM[]>;
-  hand: Record<Side, string[]>;
+  /** board index of each side's active character */
+  active?: Record<Side, number>;
+  /** sides that must pick a new active character before play goes on */
+  pendingSwitch?: Side[];
+  /** only your own side; use handCount for the opponent */
+  hand: Partial<Record<Side, string[]>>;
+  handCount: Record<Side, number>;
+  deckCount: Record<Side, number>;
   ready: Record<Side, boolean>;
+  result?: MatchResult;
+  lastReaction?: { side: Side; target: string; reaction: string; seq: number };
+  /** redacted: the opponent's draws and rolls come without codes/faces */
+  log?: LogEntry[];
+  /** wall-clock ms; the bank only drains once turnEndsAt has passed */
+  clock?: Pick<TurnClock, "on" | "bank"> & { turnEndsAt: number; deadline: number };
+  rules?: RoomRules;
+  timeouts?: Record<Side, number>;
+  /** fatigue taken so far; the next empty-deck draw deals one more */
+  fatigue?: Record<Side, number>;
+  /** wins across rematches in this room */
+  series?: Record<Side, number>;
+  rematch?: Record<Side, boolean>;
+  /** id of the finished match, for /replay/[id] */
+  matchId?: string;
   you?: Side;
+  /** how many people are watching */
+  spectators?: number;
+  /** set when this browser joined as a spectator; `delayed` is the feed lag in seconds */
+  watching?: boolean;
+  delayed?: number;
+  /** room version this snapshot came from; sent back with the next action */
+  version?: number;
+  /** wall-clock ms of the computer opponent's next move */
+  botAt?: number;
   warnNoDeck?: string[];
 };
 
@@ -47,20 +79,54 @@ type ApiErr = { error: string };
 type ApiPayload = {
   action: string;
   roomId?: string;
-  userId?: string;
+  /** display info only; the server resolves who you are from the session or guest token */
   user?: PlayerInfo;
   index?: number;
   attacker?: number;
   target?: number | null;
   mode?: "basic" | "skill" | "ult";
+  dice?: DicePool;
+  indices?: number[];
   seat?: Side; // p1 when #host, p2 when #player
+  /** fresh per action; lets the server drop a retried request */
+  actionId?: string;
+  /** room version this action was made on */
+  version?: number;
+  /** getState long poll: the version we already have */
+  since?: number;
 };
 
-async function postGame<TExpected extends object>(payload: ApiPayload): Promise<TExpected> {
+/** non-2xx reply; 409 means the room moved on before the action arrived */
+class GameApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/** retry delay for a failed long poll, and the poll period for a delayed spectator feed */
+const POLL_MS = 3000;
+/** safety poll while the push stream is open */
+const SLOW_POLL_MS = 15000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** actions the server checks against the room version (see the game route) */
+const TURN_ACTIONS = new Set(["endTurn", "endPhase", "playCard", "discardForInfinite", "switchActive", "combat"]);
+
+function newActionId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function postGame<TExpected extends object>(payload: ApiPayload, signal?: AbortSignal): Promise<TExpected> {
   const res = await fetch("/api/game", {
     method: "POST",
-    headers: { "content-type": "application/json", accept: "application/json" },
+    headers: { "content-type": "application/json", accept: "application/json", ...guestHeaders() },
     body: JSON.stringify(payload),
+    signal,
   });
 
   const text = await res.text();
@@ -73,34 +139,45 @@ async function postGame<TExpected extends object>(payload: ApiPayload): Promise<
 
   if (!res.ok) {
     const err = (json as ApiErr | null)?.error ?? `HTTP ${res.status}`;
-    throw new Error(err);
+    throw new GameApiError(res.status, err);
   }
 
   return (json ?? {}) as TExpected;
 }
 
-/* ========================= local user identity ========================= */
-function loadOrCreateUser(): PlayerInfo {
+/* ========================= guest identity ========================= */
+type GuestIdentity = { userId: string; token: string };
+const GUEST_KEY = "nof.guest";
+
+function loadGuest(): GuestIdentity | null {
   try {
-    const raw = typeof window !== "undefined" ? window.localStorage.getItem("nof.user") : null;
+    const raw = typeof window !== "undefined" ? window.localStorage.getItem(GUEST_KEY) : null;
     if (raw) {
-      const parsed = JSON.parse(raw) as PlayerInfo;
-      if (parsed && typeof parsed.userId === "string" && parsed.userId.length > 0) return parsed;
+      const parsed = JSON.parse(raw) as GuestIdentity;
+      if (parsed && typeof parsed.userId === "string" && typeof parsed.token === "string") return parsed;
     }
   } catch {
     // ignore
   }
-  const user: PlayerInfo = {
-    userId: `U${Math.random().toString(36).slice(2, 10)}`,
-    name: null,
-    avatar: null,
-  };
+  return null;
+}
+
+/** signed guest token header, if this browser has one (a Discord session cookie wins on the server) */
+export function guestHeaders(): Record<string, string> {
+  const g = loadGuest();
+  return g ? { "x-nof-guest": g.token } : {};
+}
+
+/** asks the server to sign a guest identity for this browser (reuses a stored one) */
+export async function ensureGuest(): Promise<GuestIdentity> {
+  const res = await postGame<ApiOk<{ userId: string; token?: string }>>({ action: "guest" });
+  const guest = { userId: res.userId, token: res.token ?? loadGuest()?.token ?? "" };
   try {
-    if (typeof window !== "undefined") window.localStorage.setItem("nof.user", JSON.stringify(user));
+    window.localStorage.setItem(GUEST_KEY, JSON.stringify(guest));
   } catch {
     // ignore
   }
-  return user;
+  return guest;
 }
 
 /* ========================= seat preference via URL hash ========================= */
@@ -117,14 +194,27 @@ type UseGameReturn = {
   role: "host" | "player" | "-";
   user: PlayerInfo;
   state: ClientState | null;
+  /** last action the server refused because the room had moved on (the state is already resynced) */
+  error: string | null;
+  clearError: () => void;
 
   // match the calls used on page.tsx
   ready: () => Promise<void>;
   endPhase: () => Promise<void>;
+  /** passes the turn back after this side already ended the phase */
+  endTurn: () => Promise<void>;
   playCard: (index: number) => Promise<void>;
   discardForInfinite: (index: number) => Promise<void>;
+  switchActive: (index: number) => Promise<void>;
   combat: (attacker: number, target: number | null, mode: "basic" | "skill" | "ult") => Promise<void>;
   ackCoin: () => Promise<void>;
+  mulligan: (indices: number[]) => Promise<void>;
+  rerollDice: (dice: DicePool) => Promise<void>;
+  confirmDice: () => Promise<void>;
+  concede: () => Promise<void>;
+  rematch: () => Promise<void>;
+  spectate: () => Promise<void>;
+  stopSpectating: () => Promise<void>;
 
   // optional helpers (for lobby)
   createRoom?: (roomId: string) => Promise<void>;
@@ -132,9 +222,33 @@ type UseGameReturn = {
 };
 
 export function useGame(roomId: string): UseGameReturn {
-  const user = useMemo(loadOrCreateUser, []);
+  const { data: session, status } = useSession();
+  const [guest, setGuest] = useState<GuestIdentity | null>(null);
   const [state, setState] = useState<ClientState | null>(null);
 
+  // players without a Discord session play as a signed guest
+  useEffect(() => {
+    if (status !== "unauthenticated") return;
+    let alive = true;
+    ensureGuest()
+      .then((g) => alive && setGuest(g))
+      .catch((err) => console.error("[guest] failed:", err));
+    return () => {
+      alive = false;
+    };
+  }, [status]);
+
+  const user: PlayerInfo = useMemo(() => {
+    if (status === "authenticated") {
+      return {
+        userId: String(session?.user?.id ?? ""),
+        name: session?.user?.name ?? null,
+        avatar: session?.user?.image ?? null,
+      };
+    }
+    return { userId: guest?.userId ?? "", name: null, avatar: null };
+  }, [status, session, guest]);
+
   // seat preference from hash (#host/#player)
   const seatPref = useMemo<Side | undefined>(() => seatFromHash(), []);
 
@@ -147,72 +261,178 @@ export function useGame(roomId: string): UseGameReturn {
   const refRoom = useRef(roomId);
   useEffect(() => {
     refRoom.current = roomId;
+    setState(null); // versions only compare within one room
   }, [roomId]);
 
+  /* -------- sending actions -------- */
+  const [error, setError] = useState<string | null>(null);
+  const clearError = useCallback(() => setError(null), []);
+  const versionRef = useRef<number | undefined>(undefined);
+  useEffect(() => {
+    versionRef.current = state?.version;
+  }, [state?.version]);
+
+  // action replies, refetches and long polls land in any order; an older snapshot never replaces a newer one
+  const take = useCallback((next: ClientState) => {
+    setState((cur) => (cur && (next.version ?? 0) < (cur.version ?? 0) ? cur : next));
+  }, []);
+
+  /**
+   * Posts one room action with a fresh id and the version it was made on.
+   * On a conflict someone else moved first: resync, then either resend (both-sides
+   * steps, same id so it can't apply twice) or report it instead of throwing.
+   */
+  const act = useCallback(async (payload: ApiPayload) => {
+    const actionId = newActionId();
+    const send = () =>
+      postGame<ApiOk<{ state: ClientState }>>({ ...payload, actionId, version: versionRef.current });
+    try {
+      take((await send()).state);
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof GameApiError) || err.status !== 409) throw err;
+      const res = await postGame<ApiOk<{ state: ClientState }>>({ action: "getState", roomId: payload.roomId });
+      versionRef.current = res.state.version;
+      take(res.state);
+      if (TURN_ACTIONS.has(payload.action)) return setError(err.message);
+      take((await send()).state);
+    }
+  }, [take]);
+
   /* -------- actions -------- */
   const ready = useCallback(async () => {
-    await postGame<ApiOk<{ state: ClientState }>>({
+    await act({
       action: "ready",
       roomId,
-      userId: user.userId,
       user,
       seat: seatPref,
-    }).then((res) => setState(res.state));
-  }, [roomId, user, seatPref]);
+    });
+  }, [roomId, user, seatPref, act]);
 
   const endPhase = useCallback(async () => {
-    await postGame<ApiOk<{ state: ClientState }>>({
+    await act({
       action: "endPhase",
       roomId,
-      userId: user.userId,
-    }).then((res) => setState(res.state));
-  }, [roomId, user.userId]);
+    });
+  }, [roomId, act]);
+
+  const endTurn = useCallback(async () => {
+    await act({
+      action: "endTurn",
+      roomId,
+    });
+  }, [roomId, act]);
 
   const playCard = useCallback(
     async (index: number) => {
-      await postGame<ApiOk<{ state: ClientState }>>({
+      await act({
         action: "playCard",
         roomId,
-        userId: user.userId,
         index,
-      }).then((res) => setState(res.state));
+      });
     },
-    [roomId, user.userId],
+    [roomId, act],
   );
 
   const discardForInfinite = useCallback(
     async (index: number) => {
-      await postGame<ApiOk<{ state: ClientState }>>({
+      await act({
         action: "discardForInfinite",
         roomId,
-        userId: user.userId,
         index,
-      }).then((res) => setState(res.state));
+      });
     },
-    [roomId, user.userId],
+    [roomId, act],
+  );
+
+  const switchActive = useCallback(
+    async (index: number) => {
+      await act({
+        action: "switchActive",
+        roomId,
+        index,
+      });
+    },
+    [roomId, act],
   );
 
   const combat = useCallback(
     async (attacker: number, target: number | null, mode: "basic" | "skill" | "ult") => {
-      await postGame<ApiOk<{ state: ClientState }>>({
+      await act({
         action: "combat",
         roomId,
-        userId: user.userId,
         attacker,
         target,
         mode,
-      }).then((res) => setState(res.state));
+      });
     },
-    [roomId, user.userId],
+    [roomId, act],
   );
 
   const ackCoin = useCallback(async () => {
-    await postGame<ApiOk<{ state: ClientState }>>({
+    await act({
       action: "ackCoin",
       roomId,
-      userId: user.userId,
-    }).then((res) => setState(res.state));
-  }, [roomId, user.userId]);
+    });
+  }, [roomId, act]);
+
+  const mulligan = useCallback(
+    async (indices: number[]) => {
+      await act({
+        action: "mulligan",
+        roomId,
+        indices,
+      });
+    },
+    [roomId, act],
+  );
+
+  const rerollDice = useCallback(
+    async (dice: DicePool) => {
+      await act({
+        action: "rerollDice",
+        roomId,
+        dice,
+      });
+    },
+    [roomId, act],
+  );
+
+  const confirmDice = useCallback(async () => {
+    await act({
+      action: "confirmDice",
+      roomId,
+    });
+  }, [roomId, act]);
+
+  const concede = useCallback(async () => {
+    await act({
+      action: "concede",
+      roomId,
+    });
+  }, [roomId, act]);
+
+  const rematch = useCallback(async () => {
+    await act({
+      action: "rematch",
+      roomId,
+    });
+  }, [roomId, act]);
+
+  const spectate = useCallback(async () => {
+    await act({
+      action: "spectate",
+      roomId,
+      user,
+    });
+  }, [roomId, user, act]);
+
+  const stopSpectating = useCallback(async () => {
+    await act({
+      action: "stopSpectating",
+      roomId,
+    });
+  }, [roomId, act]);
 
   // (optional) expose create/join for lobby
   const createRoom = useCallback(
@@ -241,16 +461,15 @@ export function useGame(roomId: string): UseGameReturn {
 
   /* -------- initial fetch -------- */
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !user.userId) return; // wait for the session or guest token
     let alive = true;
     (async () => {
       try {
         const data = await postGame<ApiOk<{ state: ClientState }>>({
           action: "getState",
           roomId,
-          userId: user.userId,
         });
-        if (alive) setState(data.state);
+        if (alive) take(data.state);
       } catch (err) {
         // swallow — allow button actions to refetch
         console.error("[getState:init] failed:", err);
@@ -259,22 +478,76 @@ export function useGame(roomId: string): UseGameReturn {
     return () => {
       alive = false;
     };
-  }, [roomId, user.userId]);
-
-  /* -------- polling (light) & refetch on focus/visibility -------- */
-  useEffect(() => {
-    if (!roomId) return;
+  }, [roomId, user.userId, take]);
 
-    const tick = () =>
+  /* -------- push (SSE), with long polling as the fallback -------- */
+  const fetchState = useCallback(
+    () =>
       postGame<ApiOk<{ state: ClientState }>>({
         action: "getState",
         roomId,
-        userId: user.userId,
       })
-        .then((res) => setState(res.state))
-        .catch(() => {});
+        .then((res) => take(res.state))
+        .catch(() => {}),
+    [roomId, take],
+  );
+
+  // a delayed spectator feed moves with the clock, not with room versions
+  const fastPollRef = useRef(false);
+  useEffect(() => {
+    fastPollRef.current = !!state?.delayed;
+  }, [state?.delayed]);
+
+  useEffect(() => {
+    if (!roomId || !user.userId) return;
 
-    const iv = window.setInterval(tick, 3000);
+    let live = false;
+    let lastTick = 0;
+    const tick = () => {
+      lastTick = Date.now();
+      fetchState();
+    };
+
+    // the stream only announces "version N"; fetch our own view once it is past ours
+    let es: EventSource | null = null;
+    if (typeof EventSource !== "undefined") {
+      es = new EventSource(`/api/game/stream?roomId=${encodeURIComponent(roomId)}`);
+      es.onopen = () => {
+        live = true;
+        tick(); // catch up on anything missed while disconnected
+      };
+      es.onerror = () => {
+        live = false; // EventSource reconnects by itself; poll until it does
+      };
+      es.addEventListener("version", (e) => {
+        const { version } = JSON.parse((e as MessageEvent<string>).data) as { version: number };
+        if (versionRef.current == null || version > versionRef.current) tick();
+      });
+    }
+
+    // without the stream, getState is held open by the server until our version is stale
+    const abort = new AbortController();
+    (async () => {
+      while (!abort.signal.aborted) {
+        const since = versionRef.current;
+        if (!live && !fastPollRef.current && since != null) {
+          try {
+            const res = await postGame<ApiOk<{ state?: ClientState; unchanged?: boolean }>>(
+              { action: "getState", roomId, since },
+              abort.signal,
+            );
+            lastTick = Date.now();
+            if (res.state) take(res.state);
+          } catch {
+            await sleep(POLL_MS);
+          }
+          continue;
+        }
+        await sleep(POLL_MS);
+        const every = live && !fastPollRef.current ? SLOW_POLL_MS : POLL_MS;
+        if (!abort.signal.aborted && Date.now() - lastTick >= every - 100) tick();
+      }
+    })();
 
     const onVis = () => {
       if (document.visibilityState === "visible") tick();
@@ -285,23 +558,46 @@ export function useGame(roomId: string): UseGameReturn {
     window.addEventListener("focus", onFocus);
 
     return () => {
-      window.clearInterval(iv);
+      es?.close();
+      abort.abort();
       window.removeEventListener("visibilitychange", onVis);
       window.removeEventListener("focus", onFocus);
     };
-  }, [roomId, user.userId]);
+  }, [roomId, user.userId, fetchState, take]);
+
+  // an expired turn clock and the bot's next move only happen when someone loads the room,
+  // so wake up at whichever comes first
+  const deadline = state?.clock?.deadline;
+  const botAt = state?.botAt;
+  useEffect(() => {
+    const wake = Math.min(deadline ?? Infinity, botAt ?? Infinity);
+    if (!Number.isFinite(wake) || !user.userId) return;
+    const t = window.setTimeout(fetchState, Math.max(0, wake - Date.now()) + 250);
+    return () => window.clearTimeout(t);
+  }, [deadline, botAt, user.userId, fetchState]);
 
   return {
     role,
     user,
     state,
+    error,
+    clearError,
 
     ready,
     endPhase,
+    endTurn,
     playCard,
     discardForInfinite,
+    switchActive,
     combat,
     ackCoin,
+    mulligan,
+    rerollDice,
+    confirmDice,
+    concede,
+    rematch,
+    spectate,
+    stopSpectating,
 
     createRoom,
     joinRoom,
@@ -0,0 +1,150 @@
+// src/lib/game/abilities.ts
+import type { ElementKind, StatusKind } from "./types";
+
+/* ========================= Costs ========================= */
+export const BASIC_COST = 1; // any dice
+export const SWITCH_COST = 1; // any dice, changes the active character
+export const SKILL_COST = 3; // character element (Infinite tops up)
+export const ULT_COST = 5; // character element, needs a full gauge
+export const GAUGE_MAX = 3;
+
+/* ========================= Types ========================= */
+/** extra effects resolved after the main hit, in order */
+export type AbilityEffect =
+  | { kind: "splash"; amount: number; element?: string } // every other enemy unit
+  | { kind: "heal"; amount: number; to: "self" | "team" }
+  | { kind: "status"; status: StatusKind; stacks: number; phases: number; to: "target" | "enemies" | "self" | "team" }
+  | { kind: "cleanse"; status: StatusKind; to: "target" | "self" }
+  | { kind: "gauge"; n: number; to: "target" | "self" }
+  | { kind: "dice"; element: ElementKind | "own"; n: number };
+
+export type AbilitySpec = {
+  name: string;
+  text: string;
+  /** added to the unit's attack for the hit on the chosen target */
+  damage: number;
+  effects: AbilityEffect[];
+};
+
+export type AbilityDef = { skill: AbilitySpec; ult: AbilitySpec };
+
+/* ========================= Registry (keyed by abilityCode) ========================= */
+const spec = (name: string, text: string, damage: number, effects: AbilityEffect[] = []): AbilitySpec => ({
+  name,
+  text,
+  damage,
+  effects,
+});
+
+export const ABILITIES: Record<string, AbilityDef> = {
+  god: {
+    skill: spec("Judgement", "Deal ATK+1 damage.", 1),
+    ult: spec("Genesis", "Deal ATK+3 damage and 3 damage to all other enemies.", 3, [
+      { kind: "splash", amount: 3 },
+    ]),
+  },
+  burn1: {
+    skill: spec("Searing Blade", "Deal ATK+1 damage and apply 1 Burn for 2 phases.", 1, [
+      { kind: "status", status: "burn", stacks: 1, phases: 2, to: "target" },
+    ]),
+    ult: spec("Inferno Charge", "Deal ATK+3 damage, 1 damage to all other enemies and apply 2 Burn for 2 phases.", 3, [
+      { kind: "splash", amount: 1 },
+      { kind: "status", status: "burn", stacks: 2, phases: 2, to: "target" },
+    ]),
+  },
+  freeze1: {
+    skill: spec("Frost Arrow", "Deal ATK+1 damage and Freeze the target for the rest of the phase.", 1, [
+      { kind: "status", status: "freeze", stacks: 1, phases: 1, to: "target" },
+    ]),
+    ult: spec("Glacial Volley", "Deal ATK+3 damage, Freeze the target for 2 phases and gain 1 Cryo die.", 3, [
+      { kind: "status", status: "freeze", stacks: 1, phases: 2, to: "target" },
+      { kind: "dice", element: "Cryo", n: 1 },
+    ]),
+  },
+  chain: {
+    skill: spec("Chain Spark", "Deal ATK+1 damage and 1 damage to all other enemies.", 1, [
+      { kind: "splash", amount: 1 },
+    ]),
+    ult: spec("Thunderfall", "Deal ATK+3 damage and 2 damage to all other enemies.", 3, [
+      { kind: "splash", amount: 2 },
+    ]),
+  },
+  gust: {
+    skill: spec("Tailwind Cut", "Deal ATK+1 damage and gain 1 Anemo die.", 1, [
+      { kind: "dice", element: "Anemo", n: 1 },
+    ]),
+    ult: spec("Cyclone Dance", "Deal ATK+2 damage and 2 damage to all other enemies.", 2, [
+      { kind: "splash", amount: 2 },
+    ]),
+  },
+  shield: {
+    skill: spec("Stone Wall", "Deal ATK damage and gain 2 Shield for 2 phases.", 0, [
+      { kind: "status", status: "shield", stacks: 2, phases: 2, to: "self" },
+    ]),
+    ult: spec("Bastion", "Deal ATK+1 damage and give every ally 3 Shield for 2 phases.", 1, [
+      { kind: "status", status: "shield", stacks: 3, phases: 2, to: "team" },
+    ]),
+  },
+  heal2: {
+    skill: spec("Soothing Tide", "Deal ATK damage and heal every ally 2 HP.", 0, [
+      { kind: "heal", amount: 2, to: "team" },
+    ]),
+    ult: spec("Wellspring", "Deal ATK+1 damage and heal every ally 4 HP.", 1, [
+      { kind: "heal", amount: 4, to: "team" },
+    ]),
+  },
+  collapse: {
+    skill: spec("Event Horizon", "Deal ATK+2 damage.", 2),
+    ult: spec("Singularity", "Deal ATK+5 damage.", 5),
+  },
+  distort: {
+    skill: spec("Mirage", "Deal ATK+1 damage and gain 1 Infinite die.", 1, [
+      { kind: "dice", element: "Infinite", n: 1 },
+    ]),
+    ult: spec("Dreamfold", "Deal ATK+3 damage and gain 2 Infinite dice.", 3, [
+      { kind: "dice", element: "Infinite", n: 2 },
+    ]),
+  },
+  meditate: {
+    skill: spec("Focus", "Deal ATK damage and gain 2 dice of its element.", 0, [
+      { kind: "dice", element: "own", n: 2 },
+    ]),
+    ult: spec("Enlightenment", "Deal ATK+2 damage and gain 2 Infinite dice.", 2, [
+      { kind: "dice", element: "Infinite", n: 2 },
+    ]),
+  },
+  frost_armor: {
+    skill: spec("Rime Guard", "Deal ATK+1 damage and gain 1 Armor for 2 phases.", 1, [
+      { kind: "status", status: "armor", stacks: 1, phases: 2, to: "self" },
+    ]),
+    ult: spec("Permafrost", "Deal ATK+3 damage and give every ally 1 Armor for 2 phases.", 3, [
+      { kind: "status", status: "armor", stacks: 1, phases: 2, to: "team" },
+    ]),
+  },
+  ignite: {
+    skill: spec("Kindle", "Deal ATK+1 damage and apply 1 Burn to every enemy for 1 phase.", 1, [
+      { kind: "status", status: "burn", stacks: 1, phases: 1, to: "enemies" },
+    ]),
+    ult: spec("Wildfire", "Deal ATK+3 damage and 1 damage to all other enemies.", 3, [
+      { kind: "splash", amount: 1 },
+    ]),
+  },
+  high_tide: {
+    skill: spec("Undertow", "Deal ATK+1 damage and heal itself 2 HP.", 1, [
+      { kind: "heal", amount: 2, to: "self" },
+    ]),
+    ult: spec("Tsunami", "Deal ATK+2 damage and heal every ally 3 HP.", 2, [
+      { kind: "heal", amount: 3, to: "team" },
+    ]),
+  },
+};
+
+/** what unknown codes fall back to (the old "attack + 1 / + 3" behaviour) */
+const DEFAULT_ABILITY: AbilityDef = {
+  skill: spec("Skill", "Deal ATK+1 damage.", 1),
+  ult: spec("Ultimate", "Deal ATK+3 damage.", 3),
+};
+
+export function abilityOf(abilityCode: string | null | undefined): AbilityDef {
+  return (abilityCode && ABILITIES[abilityCode]) || DEFAULT_ABILITY;
+}
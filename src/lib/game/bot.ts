@@ -0,0 +1,178 @@
+// src/lib/game/bot.ts
+//
+// Computer opponent. chooseAction picks the next move for one side from the
+// room state, using only what that side can see (its own hand and dice plus
+// the board). Turn moves are tried on the engine first, so the bot never
+// sends an action the rules would refuse or ignore.
+import { findActionCard, findChar } from "./cards";
+import { applyAction, diceTotal, foeOf } from "./engine";
+import { stacksOf } from "./statuses";
+import type { AttackMode, GameAction, PlayerInfo, RoomState, Side, UnitVM } from "./types";
+
+/** user ids of computer seats start with this; no session or token ever carries it */
+export const BOT_PREFIX = "bot:";
+/** pause before each bot move so a human can follow along */
+export const BOT_DELAY_MS = 1_500;
+
+export const isBot = (p: PlayerInfo | undefined): boolean => !!p?.userId.startsWith(BOT_PREFIX);
+
+export function botPlayer(): PlayerInfo {
+  return { userId: `${BOT_PREFIX}computer`, name: "Computer", avatar: null };
+}
+
+/** the seat a computer holds, if any (one per room) */
+export function botSide(room: RoomState): Side | null {
+  if (isBot(room.players.p2)) return "p2";
+  if (isBot(room.players.p1)) return "p1";
+  return null;
+}
+
+/** moves wait BOT_DELAY_MS after the turn clock last restarted (or the match ended) */
+const dueFrom = (room: RoomState): number => (room.clock?.since ?? room.endedAt ?? 0) + BOT_DELAY_MS;
+
+/** wall-clock ms at which the bot's next move is due, or null when it has nothing to do */
+export function botDueAt(room: RoomState): number | null {
+  const side = botSide(room);
+  if (!side || !chooseAction(room, side)) return null;
+  return dueFrom(room);
+}
+
+/** the bot's move if one is due at `now` */
+export function dueBotMove(room: RoomState, now: number): GameAction | null {
+  const side = botSide(room);
+  if (!side || now < dueFrom(room)) return null;
+  return chooseAction(room, side);
+}
+
+/* ========================= Helpers ========================= */
+type Combat = Extract<GameAction, { type: "combat" }>;
+
+/** the resulting room if the engine accepts `action` and something happens, else null */
+function tryAction(room: RoomState, action: GameAction): RoomState | null {
+  try {
+    const { state, events } = applyAction(room, action);
+    return events.length ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+const cardCost = (code: string): number => findChar(code)?.cost ?? findActionCard(code)?.cost ?? 0;
+
+/** the unit worth keeping in front: most HP, then most attack */
+function sturdiest(units: UnitVM[], skip?: number): number {
+  let best = -1;
+  units.forEach((u, i) => {
+    if (i === skip || stacksOf(u, "freeze") > 0) return;
+    const b = units[best];
+    if (!b || u.hp > b.hp || (u.hp === b.hp && u.attack > b.attack)) best = i;
+  });
+  return best;
+}
+
+/** how much a move hurt `foe`: HP and hero damage, with a fallen unit worth a lot more */
+function harm(before: RoomState, after: RoomState, foe: Side): number {
+  const hp = (r: RoomState) => r.board[foe].reduce((a, u) => a + u.hp, 0);
+  const lost = before.board[foe].length - after.board[foe].length;
+  const won = after.result?.winner === foeOf(foe) ? 1000 : 0;
+  return hp(before) - hp(after) + (before.hero[foe] - after.hero[foe]) + lost * 20 + won;
+}
+
+/* ========================= Setup steps ========================= */
+/** reserves can't come in while the board is full, so they go back at the start */
+function mulliganPicks(room: RoomState, side: Side): number[] {
+  return room.hand[side].flatMap((code, i) => (findChar(code) ? [i] : []));
+}
+
+/** rerolls the dice no own character or card can use (Neutral and Infinite always stay) */
+function rerollPick(room: RoomState, side: Side): GameAction | null {
+  if (!room.roll || room.roll.rerolls[side] <= 0) return null;
+  const wanted = new Set<string>(["Infinite", "Neutral", ...room.board[side].map((u) => u.element)]);
+  const dice = Object.fromEntries(
+    Object.entries(room.dice[side]).filter(([el, n]) => n > 0 && !wanted.has(el))
+  );
+  return diceTotal(dice) > 0 ? { type: "rerollDice", side, dice } : null;
+}
+
+/* ========================= Turn ========================= */
+/** strongest affordable attack from the active unit, aimed where it does the most harm */
+function bestAttack(room: RoomState, side: Side): { action: Combat; after: RoomState } | null {
+  const foe = foeOf(side);
+  const attacker = room.active[side];
+  const targets: (number | null)[] = room.board[foe].length ? room.board[foe].map((_, i) => i) : [null];
+  for (const mode of ["ult", "skill", "basic"] as AttackMode[]) {
+    let best: { action: Combat; after: RoomState; score: number } | null = null;
+    for (const target of targets) {
+      const action: Combat = { type: "combat", side, attacker, target, mode };
+      const after = tryAction(room, action);
+      if (!after) continue;
+      const score = harm(room, after, foe);
+      if (!best || score > best.score) best = { action, after, score };
+    }
+    if (best) return best;
+  }
+  return null;
+}
+
+/** playable hand cards, most expensive first (reserves, then supports and events) */
+function playableCards(room: RoomState, side: Side): { action: GameAction; after: RoomState }[] {
+  return room.hand[side]
+    .map((code, index) => ({ code, index }))
+    .sort((a, b) => Number(!!findChar(b.code)) - Number(!!findChar(a.code)) || cardCost(b.code) - cardCost(a.code))
+    .flatMap(({ index }) => {
+      const action: GameAction = { type: "playCard", side, index };
+      const after = tryAction(room, action);
+      return after ? [{ action, after }] : [];
+    });
+}
+
+/**
+ * One move on the bot's own turn: a card that still leaves dice for the
+ * planned attack, then the attack, then leftover cards, then end the phase.
+ */
+function playTurn(room: RoomState, side: Side): GameAction {
+  const attack = bestAttack(room, side);
+  const cards = playableCards(room, side);
+
+  if (attack) {
+    const spare = cards.find(({ after }) => bestAttack(after, side)?.action.mode === attack.action.mode);
+    return spare ? spare.action : attack.action;
+  }
+  if (cards.length) return cards[0].action;
+
+  // a frozen active unit can't attack; hand the front to someone who can
+  const active = room.board[side][room.active[side]];
+  if (active && stacksOf(active, "freeze") > 0) {
+    const to = sturdiest(room.board[side], room.active[side]);
+    const action: GameAction = { type: "switchActive", side, index: to };
+    if (to >= 0 && tryAction(room, action)) return action;
+  }
+
+  // two more cards come at the phase end; turn the priciest one into a die instead of burning it
+  const hand = room.hand[side];
+  if (hand.length >= room.rules.maxHand - 1) {
+    let index = 0;
+    hand.forEach((code, i) => cardCost(code) > cardCost(hand[index]) && (index = i));
+    return { type: "discardForInfinite", side, index };
+  }
+  return room.endTurned[side] ? { type: "endTurn", side } : { type: "endPhase", side };
+}
+
+/* ========================= Entry point ========================= */
+/** the next move for `side`, or null while it is someone else's turn */
+export function chooseAction(room: RoomState, side: Side): GameAction | null {
+  const foe = foeOf(side);
+  if (room.mode === "lobby") return room.ready[side] ? null : { type: "ready", side };
+  if (room.mode === "finished") {
+    return room.rematch?.[foe] && !room.rematch[side] ? { type: "rematch", side } : null;
+  }
+  if (room.coin.decided && !room.coinAck[side]) return { type: "ackCoin", side };
+  if (room.mulligan) return room.mulligan.done[side] ? null : { type: "mulligan", side, indices: mulliganPicks(room, side) };
+  if (room.roll) return room.roll.confirmed[side] ? null : (rerollPick(room, side) ?? { type: "confirmDice", side });
+  if (room.pendingSwitch?.length) {
+    if (!room.pendingSwitch.includes(side)) return null;
+    return { type: "switchActive", side, index: Math.max(0, sturdiest(room.board[side])) };
+  }
+  if (room.phaseActor !== side) return null;
+  return playTurn(room, side);
+}
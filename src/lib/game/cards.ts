@@ -0,0 +1,32 @@
+// src/lib/game/cards.ts
+import cardsDataJson from "@/data/cards.json";
+import type { CardsData, CharacterCard, EventCard, SupportCard, UnitVM } from "./types";
+
+const cardsData = cardsDataJson as CardsData;
+
+/** characters a side can have on the board at once */
+export const BOARD_SLOTS = 3;
+/**
+ * Saved decks keep reserve characters in the card1..card20 columns as
+ * RESERVE_CARD_BASE + char_id, next to the support/event ids.
+ */
+export const RESERVE_CARD_BASE = 200;
+
+export const allChars = (): CharacterCard[] => cardsData.characters;
+export const allSupports = (): SupportCard[] => cardsData.supports;
+export const allEvents = (): EventCard[] => cardsData.events;
+
+export function findChar(code: string): CharacterCard | undefined {
+  return allChars().find((c) => c.code === code);
+}
+
+/** support or event card by code */
+export function findActionCard(code: string): SupportCard | EventCard | undefined {
+  return allSupports().find((c) => c.code === code) ?? allEvents().find((c) => c.code === code);
+}
+
+export function toUnit(code: string): UnitVM | null {
+  const ch = findChar(code);
+  if (!ch) return null;
+  return { code: ch.code, element: ch.element, attack: ch.attack, hp: ch.hp, gauge: 0 };
+}
@@ -0,0 +1,81 @@
+// src/lib/game/clock.ts
+//
+// Turn timers. The engine never reads the clock, so the route stamps
+// `room.clock` after each action (settleClock) and, whenever a room is
+// loaded, turns an expired clock into engine "timeout" actions (enforceClock).
+import { applyAction } from "./engine";
+import type { RoomState, Side, TurnClock } from "./types";
+
+const SIDES: Side[] = ["p1", "p2"];
+
+/** who the clock runs for right now, or null when nobody is on the clock */
+export function clockSubject(room: RoomState): TurnClock["on"] | null {
+  if (room.mode !== "play") return null;
+  if (room.mulligan) return "mulligan";
+  if (room.roll) return "roll";
+  // a fallen active character has to be replaced before anyone else can act
+  if (room.pendingSwitch?.length) return room.pendingSwitch[0];
+  return room.phaseActor;
+}
+
+/** simultaneous steps: both sides choose at once and nobody's bank is used */
+const isShared = (on: TurnClock["on"]): on is "roll" | "mulligan" => on === "roll" || on === "mulligan";
+
+/** end of the turn allowance; a side's bank runs after it (shared steps have no bank) */
+export function turnEndsAt(room: RoomState, clock: TurnClock): number {
+  return clock.since + room.rules.turnSeconds * 1000;
+}
+export function deadlineOf(room: RoomState, clock: TurnClock): number {
+  return turnEndsAt(room, clock) + (isShared(clock.on) ? 0 : clock.bank[clock.on]);
+}
+
+/**
+ * Restamps the clock after an action took `prev` to `next`. The clock restarts
+ * when someone else is now on it or the side on it acted; time past the turn
+ * allowance comes out of that side's bank.
+ */
+export function settleClock(prev: RoomState, next: RoomState, actor: Side | null, now: number) {
+  const on = clockSubject(next);
+  if (!on) {
+    delete next.clock;
+    return;
+  }
+  const old = prev.clock;
+  if (old && old.on === on && (isShared(on) || actor !== on)) return;
+
+  const bankMs = next.rules.bankSeconds * 1000;
+  const bank = old ? { ...old.bank } : { p1: bankMs, p2: bankMs };
+  if (old && !isShared(old.on)) {
+    const over = now - turnEndsAt(prev, old);
+    if (over > 0) bank[old.on] = Math.max(0, bank[old.on] - over);
+  }
+  next.clock = { on, since: now, bank };
+}
+
+/** applies timeouts for whoever the expired clock was running for (a no-op while time is left) */
+export function enforceClock(room: RoomState, now: number): RoomState {
+  let cur = room;
+  // one pass normally suffices; the cap only guards against a stuck clock
+  for (let i = 0; i < 3 && cur.clock && now >= deadlineOf(cur, cur.clock); i++) {
+    const { on } = cur.clock;
+    const waiting = on === "roll" ? cur.roll?.confirmed : on === "mulligan" ? cur.mulligan?.done : null;
+    const late = isShared(on) ? SIDES.filter((s) => !waiting?.[s]) : [on];
+    let next = cur;
+    for (const side of late) next = applyAction(next, { type: "timeout", side }).state;
+    settleClock(cur, next, isShared(on) ? null : on, now);
+    cur = next;
+  }
+  return cur;
+}
+
+/** what the client needs for a countdown */
+export function clockView(room: RoomState) {
+  const clock = room.clock;
+  if (!clock) return undefined;
+  return {
+    on: clock.on,
+    turnEndsAt: turnEndsAt(room, clock),
+    deadline: deadlineOf(room, clock),
+    bank: clock.bank,
+  };
+}
@@ -0,0 +1,40 @@
+// src/lib/game/dice.ts
+import type { Rng } from "./rng";
+import { ELEMENTS, type DicePool, type ElementKind, type UnitVM } from "./types";
+
+/** dice each side rolls at the start of every phase */
+export const DICE_PER_ROLL = 10;
+/** extra weight per character of that element on the roller's board */
+const CHAR_WEIGHT = 2;
+
+/** every element (Infinite included) weighs 1, plus CHAR_WEIGHT per own character */
+export function diceWeights(units: UnitVM[]): Record<ElementKind, number> {
+  const w = Object.fromEntries(ELEMENTS.map((el) => [el, 1])) as Record<ElementKind, number>;
+  for (const u of units) {
+    if ((ELEMENTS as readonly string[]).includes(u.element)) w[u.element as ElementKind] += CHAR_WEIGHT;
+  }
+  return w;
+}
+
+export function rollDice(rng: Rng, n: number, weights: Record<ElementKind, number>): DicePool {
+  const total = ELEMENTS.reduce((a, el) => a + weights[el], 0);
+  const out: DicePool = {};
+  for (let i = 0; i < n; i++) {
+    let r = rng.next() * total;
+    let pick: ElementKind = ELEMENTS[ELEMENTS.length - 1];
+    for (const el of ELEMENTS) {
+      r -= weights[el];
+      if (r < 0) {
+        pick = el;
+        break;
+      }
+    }
+    out[pick] = (out[pick] ?? 0) + 1;
+  }
+  return out;
+}
+
+/** true when every count in `part` is available in `pool` */
+export function isSubPool(pool: DicePool, part: DicePool): boolean {
+  return Object.entries(part).every(([el, n]) => (n ?? 0) >= 0 && (pool[el] ?? 0) >= (n ?? 0));
+}
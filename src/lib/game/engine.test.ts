@@ -0,0 +1,96 @@
+// src/lib/game/engine.test.ts
+//
+// Engine checks that need no HTTP or DB: npm test
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { chooseAction } from "./bot";
+import { applyAction, freshRoom, WAITS_FOR_ROLL } from "./engine";
+import { seedRng } from "./rng";
+import type { GameAction, RoomState, Side } from "./types";
+
+/** both seats taken and readied, the match started and the coin seen by both */
+function startedRoom(seed: number): RoomState {
+  let room = freshRoom("TEST", seedRng(seed));
+  room.players = { p1: { userId: "a", name: "A" }, p2: { userId: "b", name: "B" } };
+  for (const action of [
+    { type: "ready", side: "p1" },
+    { type: "ready", side: "p2" },
+    { type: "start", decks: { p1: null, p2: null } },
+    { type: "ackCoin", side: "p1" },
+    { type: "ackCoin", side: "p2" },
+  ] as GameAction[]) {
+    room = applyAction(room, action).state;
+  }
+  return room;
+}
+
+/** one of each gated action type, made by `side` */
+function gatedActions(side: Side): GameAction[] {
+  const all: GameAction[] = [
+    { type: "endTurn", side },
+    { type: "endPhase", side },
+    { type: "playCard", side, index: 0 },
+    { type: "discardForInfinite", side, index: 0 },
+    { type: "combat", side, attacker: 0, target: 0, mode: "basic" },
+  ];
+  return all.filter((a) => WAITS_FOR_ROLL.has(a.type));
+}
+
+describe("determinism", () => {
+  test("the same seed and actions give the same state", () => {
+    let played = startedRoom(7);
+    const actions: GameAction[] = [];
+    for (let n = 0; played.mode === "play" && n < 300; n++) {
+      const action = chooseAction(played, "p1") ?? chooseAction(played, "p2");
+      if (!action) break;
+      actions.push(action);
+      played = applyAction(played, action).state;
+    }
+    assert.ok(actions.length > 10);
+
+    let again = startedRoom(7);
+    for (const action of actions) again = applyAction(again, action).state;
+    assert.deepEqual(again, played);
+  });
+
+  test("applyAction leaves its input untouched", () => {
+    const room = startedRoom(3);
+    const before = structuredClone(room);
+    applyAction(room, { type: "mulligan", side: "p1", indices: [0, 1] });
+    assert.deepEqual(room, before);
+  });
+});
+
+describe("mulligan and roll gating", () => {
+  test("every WAITS_FOR_ROLL action is refused during the mulligan", () => {
+    const room = startedRoom(11);
+    assert.ok(room.mulligan);
+    for (const action of gatedActions(room.phaseActor)) {
+      assert.throws(() => applyAction(room, action), /Finish the mulligan first/, action.type);
+    }
+  });
+
+  test("every WAITS_FOR_ROLL action is refused until both sides confirm their dice", () => {
+    let room = startedRoom(11);
+    room = applyAction(room, { type: "mulligan", side: "p1", indices: [] }).state;
+    room = applyAction(room, { type: "mulligan", side: "p2", indices: [] }).state;
+    assert.equal(room.mulligan, undefined);
+    assert.ok(room.roll);
+    for (const action of gatedActions(room.phaseActor)) {
+      assert.throws(() => applyAction(room, action), /Confirm your dice first/, action.type);
+    }
+
+    room = applyAction(room, { type: "confirmDice", side: "p1" }).state;
+    assert.ok(room.roll, "one confirmation keeps the roll open");
+    room = applyAction(room, { type: "confirmDice", side: "p2" }).state;
+    assert.equal(room.roll, undefined);
+    const { events } = applyAction(room, { type: "endPhase", side: room.phaseActor });
+    assert.ok(events.some((e) => e.type === "phaseEnded"));
+  });
+
+  test("both-sides steps and switching stay open while the roll waits", () => {
+    for (const type of ["ready", "mulligan", "rerollDice", "confirmDice", "ackCoin", "switchActive"] as const) {
+      assert.equal(WAITS_FOR_ROLL.has(type), false, type);
+    }
+  });
+});
@@ -0,0 +1,763 @@
+// src/lib/game/engine.ts
+//
+// Pure rules engine: applyAction(state, action, rng) -> { state, events }.
+// The input state is never mutated and all randomness comes from the seeded
+// RNG stored in RoomState.rng, so a game can be replayed from its actions.
+import {
+  abilityOf,
+  BASIC_COST,
+  GAUGE_MAX,
+  SKILL_COST,
+  SWITCH_COST,
+  ULT_COST,
+  type AbilityEffect,
+  type AbilitySpec,
+} from "./abilities";
+import { allChars, allEvents, allSupports, BOARD_SLOTS, findActionCard, findChar, toUnit } from "./cards";
+import { createRng, type Rng } from "./rng";
+import { DICE_PER_ROLL, diceWeights, isSubPool, rollDice } from "./dice";
+import { findReaction, isAuraElement } from "./reactions";
+import { DEFAULT_RULES } from "./rules";
+import { SUPPORT_SLOTS, supportOf, type SupportTrigger } from "./supports";
+import { addStatus, healAmount, mitigate, removeStatus, stacksOf, tickStatuses } from "./statuses";
+import {
+  type ActionResult,
+  type AttackMode,
+  type DeckLoadout,
+  type DicePool,
+  type ElementKind,
+  type GameAction,
+  type GameEvent,
+  type MatchEndReason,
+  type RngState,
+  type RoomRules,
+  type RoomState,
+  type Side,
+  type StatusKind,
+  type SupportVM,
+  type UnitVM,
+} from "./types";
+
+/** mutable working copy threaded through one applyAction call */
+type Game = {
+  room: RoomState;
+  rng: Rng;
+  events: GameEvent[];
+  /** supports that already triggered during this action */
+  fired: Set<SupportVM>;
+};
+
+/* ========================= Helpers ========================= */
+export const foeOf = (s: Side): Side => (s === "p1" ? "p2" : "p1");
+
+function shuffle<T>(rng: Rng, arr: T[]) {
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+/** an empty deck deals fatigue (1, 2, 3, ... per side); a full hand burns the drawn card */
+function draw(g: Game, side: Side, n: number) {
+  const { room } = g;
+  for (let i = 0; i < n; i++) {
+    const code = room.deck[side].shift();
+    if (!code) {
+      room.fatigue[side] += 1;
+      g.events.push({ type: "fatigue", side, amount: room.fatigue[side] });
+      damageHero(g, side, room.fatigue[side]);
+      continue;
+    }
+    if (room.hand[side].length >= room.rules.maxHand) {
+      g.events.push({ type: "cardBurned", side, code });
+      continue;
+    }
+    room.hand[side].push(code);
+    g.events.push({ type: "cardDrawn", side, code });
+  }
+}
+export function diceTotal(poolD: DicePool): number {
+  return Object.values(poolD).reduce((a, b) => a + (b ?? 0), 0);
+}
+function addDie(poolD: DicePool, el: ElementKind, n = 1) {
+  poolD[el] = (poolD[el] ?? 0) + n;
+}
+/** spends n dice of any kind (Infinite first); returns what was spent, or null if short */
+function spendAny(poolD: DicePool, n: number): DicePool | null {
+  if (diceTotal(poolD) < n) return null;
+  const spent: DicePool = {};
+  let remain = n;
+  const inf = Math.min(poolD.Infinite ?? 0, remain);
+  if (inf > 0) {
+    poolD.Infinite = (poolD.Infinite ?? 0) - inf;
+    spent.Infinite = inf;
+    remain -= inf;
+  }
+  while (remain > 0) {
+    const k = Object.keys(poolD).find((x) => (poolD[x] ?? 0) > 0) as ElementKind | undefined;
+    if (!k) return null;
+    poolD[k] = (poolD[k] ?? 0) - 1;
+    spent[k] = (spent[k] ?? 0) + 1;
+    remain--;
+  }
+  return spent;
+}
+/** spends n dice of `el`, topping up with Infinite; returns what was spent, or null if short */
+function spendElement(poolD: DicePool, el: ElementKind, n: number): DicePool | null {
+  const have = (poolD[el] ?? 0) + (poolD.Infinite ?? 0);
+  if (have < n) return null;
+  const spent: DicePool = {};
+  const useEl = Math.min(poolD[el] ?? 0, n);
+  poolD[el] = (poolD[el] ?? 0) - useEl;
+  if (useEl > 0) spent[el] = useEl;
+  const remain = n - useEl;
+  if (remain > 0) {
+    poolD.Infinite = (poolD.Infinite ?? 0) - remain;
+    spent.Infinite = remain;
+  }
+  return spent;
+}
+/** card costs: Neutral cards take any dice, the rest follow spendElement */
+function payCost(poolD: DicePool, element: string, n: number): DicePool | null {
+  if (n <= 0) return {};
+  if (element === "Neutral") return spendAny(poolD, n);
+  return spendElement(poolD, element as ElementKind, n);
+}
+function passTurn(g: Game, to: Side) {
+  g.room.turn = to;
+  g.room.phaseActor = to;
+  g.events.push({ type: "turnPassed", to });
+}
+
+/* ========================= Room ========================= */
+export function freshRoom(id: string, rng: RngState, rules: RoomRules = DEFAULT_RULES): RoomState {
+  return {
+    id: id.toUpperCase(),
+    mode: "lobby",
+    players: {},
+    spectators: [],
+    ready: { p1: false, p2: false },
+    coin: { decided: false },
+    coinAck: { p1: false, p2: false },
+    phaseNo: 0,
+    turn: "p1",
+    phaseActor: "p1",
+    endTurned: { p1: false, p2: false },
+    phaseEndOrder: [],
+    hero: { p1: 30, p2: 30 },
+    board: { p1: [], p2: [] },
+    active: { p1: 0, p2: 0 },
+    hand: { p1: [], p2: [] },
+    deck: { p1: [], p2: [] },
+    dice: { p1: {}, p2: {} },
+    supports: { p1: [], p2: [] },
+    log: [],
+    timeouts: { p1: 0, p2: 0 },
+    fatigue: { p1: 0, p2: 0 },
+    series: { p1: 0, p2: 0 },
+    rules: { ...rules },
+    rng,
+  };
+}
+
+/* ========================= Game ops ========================= */
+function ready(g: Game, s: Side) {
+  g.room.ready[s] = true;
+}
+
+function startGame(g: Game, decks: Record<Side, DeckLoadout | null>, first?: Side) {
+  const { room, rng } = g;
+  room.mode = "play";
+  room.phaseNo = 1;
+  room.endTurned = { p1: false, p2: false };
+  room.phaseEndOrder = [];
+
+  const used = {} as Record<Side, DeckLoadout>;
+  const setup = (side: Side) => {
+    const loadout = decks[side];
+    let boardCodes = loadout?.chars.slice(0, 3) ?? [];
+    let deckCodes = loadout?.deck.slice() ?? [];
+
+    if (!boardCodes.length) {
+      const candidates = allChars().map((c) => c.code);
+      shuffle(rng, candidates);
+      boardCodes = candidates.slice(0, 3);
+    }
+    if (!deckCodes.length) {
+      const supports = allSupports().map((c) => c.code);
+      const events = allEvents().map((c) => c.code);
+      deckCodes = [...supports, ...events, ...supports, ...events];
+    }
+
+    room.board[side] = boardCodes.map((c) => toUnit(c)!).filter(Boolean);
+    used[side] = { chars: boardCodes.slice(), deck: deckCodes.slice() };
+    room.hand[side] = [];
+    room.deck[side] = shuffle(rng, deckCodes);
+    draw(g, side, 5);
+  };
+
+  setup("p1");
+  setup("p2");
+  room.loadout = used;
+  room.active = { p1: 0, p2: 0 };
+  delete room.pendingSwitch;
+
+  room.supports = { p1: [], p2: [] };
+  room.timeouts = { p1: 0, p2: 0 };
+  room.fatigue = { p1: 0, p2: 0 };
+  // phase 1 dice are rolled once both opening hands are settled
+  room.mulligan = { done: { p1: false, p2: false }, picks: {} };
+
+  const win: Side = first ?? (rng.next() < 0.5 ? "p1" : "p2");
+  delete room.nextFirst;
+  room.coin = { decided: true, winner: win };
+  room.coinAck = { p1: false, p2: false };
+  room.turn = win;
+  room.phaseActor = win;
+  g.events.push({ type: "gameStarted", first: win });
+}
+
+/* ========================= Mulligan ========================= */
+/** records a side's pick; once both have chosen, both swaps resolve together and phase 1 rolls */
+function mulligan(g: Game, s: Side, indices: number[]) {
+  const { room, rng } = g;
+  const m = room.mulligan;
+  if (!m || m.done[s]) return;
+  const hand = room.hand[s];
+  const pick = [...new Set(indices)].filter((i) => Number.isInteger(i) && i >= 0 && i < hand.length);
+  m.picks[s] = pick;
+  m.done[s] = true;
+  g.events.push({ type: "mulliganChosen", side: s });
+  if (!(m.done.p1 && m.done.p2)) return;
+
+  for (const side of ["p1", "p2"] as const) {
+    const back = new Set(m.picks[side] ?? []);
+    room.deck[side].push(...room.hand[side].filter((_, i) => back.has(i)));
+    room.hand[side] = room.hand[side].filter((_, i) => !back.has(i));
+    shuffle(rng, room.deck[side]);
+    g.events.push({ type: "mulliganDone", side, n: back.size });
+    draw(g, side, back.size);
+  }
+  delete room.mulligan;
+  beginRoll(g);
+}
+
+/* ========================= Roll phase ========================= */
+/** fresh dice for both sides (weighted to their characters) and a new reroll budget */
+function beginRoll(g: Game) {
+  const { room, rng } = g;
+  for (const side of ["p1", "p2"] as const) {
+    room.dice[side] = rollDice(rng, DICE_PER_ROLL, diceWeights(room.board[side]));
+    g.events.push({ type: "diceRolled", side, dice: { ...room.dice[side] }, reroll: false });
+  }
+  room.roll = {
+    confirmed: { p1: false, p2: false },
+    rerolls: { p1: room.rules.rerolls, p2: room.rules.rerolls },
+  };
+}
+function rerollDice(g: Game, s: Side, pick: DicePool) {
+  const { room, rng } = g;
+  if (!room.roll || room.roll.confirmed[s]) return;
+  if (room.roll.rerolls[s] <= 0) throw new Error("No rerolls left");
+  if (!isSubPool(room.dice[s], pick)) throw new Error("Selected dice are not in your pool");
+  const n = diceTotal(pick);
+  if (n <= 0) return;
+
+  for (const [el, k] of Object.entries(pick)) room.dice[s][el] = (room.dice[s][el] ?? 0) - (k ?? 0);
+  const fresh = rollDice(rng, n, diceWeights(room.board[s]));
+  for (const [el, k] of Object.entries(fresh)) addDie(room.dice[s], el as ElementKind, k);
+  room.roll.rerolls[s] -= 1;
+  g.events.push({ type: "diceRolled", side: s, dice: fresh, reroll: true });
+}
+function confirmDice(g: Game, s: Side) {
+  const { room } = g;
+  if (!room.roll || room.roll.confirmed[s]) return;
+  room.roll.confirmed[s] = true;
+  g.events.push({ type: "diceConfirmed", side: s });
+  if (room.roll.confirmed.p1 && room.roll.confirmed.p2) delete room.roll;
+}
+
+function ackCoin(g: Game, s: Side) {
+  const { room } = g;
+  if (!room.coin.decided) return;
+  room.coinAck[s] = true;
+  if (room.coinAck.p1 && room.coinAck.p2) room.coin.decided = false;
+}
+function endTurn(g: Game, s: Side) {
+  if (g.room.turn !== s) return;
+  passTurn(g, foeOf(s));
+}
+function endPhase(g: Game, s: Side) {
+  const { room } = g;
+  if (room.phaseActor !== s) return;
+  if (room.endTurned[s]) return;
+
+  room.endTurned[s] = true;
+  if (!room.phaseEndOrder.includes(s)) room.phaseEndOrder.push(s);
+  g.events.push({ type: "phaseEnded", side: s });
+
+  if (!(room.endTurned.p1 && room.endTurned.p2)) {
+    passTurn(g, foeOf(s));
+    return;
+  }
+
+  tickPhaseStatuses(g);
+
+  const starter = room.phaseEndOrder[0] ?? "p1";
+  room.phaseNo += 1;
+  room.turn = starter;
+  room.phaseActor = starter;
+  room.endTurned = { p1: false, p2: false };
+  room.phaseEndOrder = [];
+  g.events.push({ type: "phaseAdvanced", phaseNo: room.phaseNo, starter });
+  fireSupports(g, starter, "phaseStart");
+  fireSupports(g, foeOf(starter), "phaseStart");
+  beginRoll(g);
+  draw(g, "p1", 2);
+  draw(g, "p2", 2);
+}
+/**
+ * the clock ran out on `s`: the opening hand and dice are kept as they are; a play turn counts a strike
+ * and ends the phase. A side that already ended the phase (and got the turn back from an attack) just passes.
+ */
+function timeout(g: Game, s: Side) {
+  const { room } = g;
+  if (room.mulligan) return mulligan(g, s, []);
+  if (room.roll) return confirmDice(g, s);
+  if (room.pendingSwitch?.includes(s)) return switchActive(g, s, 0);
+  if (room.phaseActor !== s) return;
+  if (room.endTurned[s]) return endTurn(g, s);
+  room.timeouts[s] += 1;
+  g.events.push({ type: "timedOut", side: s, strikes: room.timeouts[s] });
+  if (room.timeouts[s] >= room.rules.maxTimeouts) return finish(g, foeOf(s), "timeout");
+  endPhase(g, s);
+}
+function playCard(g: Game, s: Side, handIndex: number) {
+  const { room } = g;
+  if (room.phaseActor !== s) return;
+  const card = room.hand[s][handIndex];
+  if (!card) return;
+
+  const ch = findChar(card);
+  if (ch) return deployUnit(g, s, handIndex, ch.code, ch.element, ch.cost);
+
+  const def = findActionCard(card);
+  const support = supportOf(card);
+  if (support && room.supports[s].length >= SUPPORT_SLOTS) {
+    throw new Error(`Supports zone is full (${SUPPORT_SLOTS} slots)`);
+  }
+  if (def) {
+    const spent = payCost(room.dice[s], def.element, def.cost);
+    if (!spent) throw new Error(`Not enough dice for ${def.name} (${def.cost} ${def.element})`);
+    if (def.cost > 0) g.events.push({ type: "diceSpent", side: s, dice: spent });
+  }
+
+  room.hand[s].splice(handIndex, 1);
+  g.events.push({ type: "cardPlayed", side: s, code: card });
+
+  // supports stay on the table; events resolve once
+  if (support) {
+    room.supports[s].push({ code: card, uses: support.uses });
+    g.events.push({ type: "supportPlaced", side: s, code: card });
+  } else if (card === "FIREWORKS") {
+    const foe = foeOf(s);
+    if (room.board[foe].length === 0) {
+      damageHero(g, foe, 2);
+    } else {
+      for (let i = room.board[foe].length - 1; i >= 0; i--) hitUnit(g, s, null, i, 2, def?.element ?? null);
+    }
+  }
+}
+/** reserve character from hand onto the board; costs its own element like action cards */
+function deployUnit(g: Game, s: Side, handIndex: number, code: string, element: string, cost: number) {
+  const { room } = g;
+  if (room.board[s].length >= BOARD_SLOTS) throw new Error(`Board is full (${BOARD_SLOTS} slots)`);
+  const spent = payCost(room.dice[s], element, cost);
+  if (!spent) throw new Error(`Not enough dice to deploy ${code} (${cost} ${element})`);
+  if (cost > 0) g.events.push({ type: "diceSpent", side: s, dice: spent });
+
+  room.hand[s].splice(handIndex, 1);
+  g.events.push({ type: "cardPlayed", side: s, code });
+  room.board[s].push(toUnit(code)!);
+  g.events.push({ type: "unitDeployed", side: s, code });
+}
+function discardForInfinite(g: Game, s: Side, handIndex: number) {
+  const { room } = g;
+  if (room.phaseActor !== s) return;
+  const card = room.hand[s][handIndex];
+  if (!card) return;
+  room.hand[s].splice(handIndex, 1);
+  addDie(room.dice[s], "Infinite", 1);
+  g.events.push({ type: "cardDiscarded", side: s, code: card });
+  g.events.push({ type: "diceGained", side: s, element: "Infinite", n: 1 });
+}
+
+function damageHero(g: Game, side: Side, dmg: number) {
+  const { room } = g;
+  const before = room.hero[side];
+  room.hero[side] = Math.max(0, room.hero[side] - dmg);
+  g.events.push({ type: "damage", side, target: "hero", amount: before - room.hero[side] });
+}
+/* ========================= Supports ========================= */
+/** fires every support of `side` listening to `trigger`; each support fires at most once per action */
+function fireSupports(g: Game, side: Side, trigger: SupportTrigger, self: UnitVM | null = null) {
+  const zone = g.room.supports[side];
+  for (const sup of [...zone]) {
+    const def = supportOf(sup.code);
+    if (!def || def.trigger !== trigger || g.fired.has(sup)) continue;
+    g.fired.add(sup);
+    sup.uses -= 1;
+    g.events.push({ type: "supportTriggered", side, code: sup.code, uses: sup.uses });
+    applyEffects(g, side, self, def.effects, null);
+    if (sup.uses <= 0) {
+      zone.splice(zone.indexOf(sup), 1);
+      g.events.push({ type: "supportDiscarded", side, code: sup.code });
+    }
+  }
+}
+
+/**
+ * Takes a unit off the board and keeps `active` pointing at the same character.
+ * Losing the active one leaves a free switch to choose, unless only one unit is left.
+ */
+function removeUnit(g: Game, side: Side, index: number) {
+  const { room } = g;
+  const units = room.board[side];
+  units.splice(index, 1);
+  if (index < room.active[side]) room.active[side] -= 1;
+  else if (index === room.active[side]) {
+    room.active[side] = 0;
+    if (units.length > 1) room.pendingSwitch = [...new Set([...(room.pendingSwitch ?? []), side])];
+    else if (units.length === 1) g.events.push({ type: "activeSwitched", side, code: units[0].code, forced: true });
+  }
+  if (units.length <= 1 && room.pendingSwitch) {
+    room.pendingSwitch = room.pendingSwitch.filter((x) => x !== side);
+    if (units.length === 1) room.active[side] = 0;
+  }
+  if (room.pendingSwitch?.length === 0) delete room.pendingSwitch;
+}
+
+/** combat damage goes through the status hooks; `source` marks status ticks, which bypass them */
+function damageUnit(g: Game, side: Side, index: number, dmg: number, source?: StatusKind) {
+  const tgt = g.room.board[side][index];
+  if (!tgt) return;
+  const { taken, blocked } = source ? { taken: dmg, blocked: 0 } : mitigate(tgt, dmg);
+  tgt.hp -= taken;
+  g.events.push({
+    type: "damage",
+    side,
+    target: tgt.code,
+    amount: taken,
+    ...(blocked ? { blocked } : {}),
+    ...(source ? { source } : {}),
+  });
+  if (tgt.hp <= 0) {
+    g.events.push({ type: "unitDefeated", side, code: tgt.code });
+    removeUnit(g, side, index);
+  }
+  if (taken > 0) fireSupports(g, side, "unitDamaged", tgt.hp > 0 ? tgt : null);
+}
+function healUnit(g: Game, side: Side, u: UnitVM, amount: number) {
+  const max = findChar(u.code)?.hp ?? u.hp;
+  const healed = Math.max(0, Math.min(healAmount(u, amount), max - u.hp));
+  if (healed <= 0) return;
+  u.hp += healed;
+  g.events.push({ type: "heal", side, target: u.code, amount: healed });
+}
+function giveStatus(g: Game, side: Side, u: UnitVM, status: StatusKind, stacks: number, phases: number) {
+  addStatus(u, status, stacks, phases);
+  g.events.push({ type: "statusApplied", side, target: u.code, status, stacks, phases });
+}
+/** end-of-phase: burn ticks, then every status counts down */
+function tickPhaseStatuses(g: Game) {
+  for (const side of ["p1", "p2"] as const) {
+    const units = g.room.board[side];
+    for (let i = units.length - 1; i >= 0; i--) {
+      const u = units[i];
+      const { burn, expired } = tickStatuses(u);
+      for (const status of expired) g.events.push({ type: "statusExpired", side, target: u.code, status });
+      if (burn > 0) damageUnit(g, side, i, burn, "burn");
+    }
+  }
+}
+
+/**
+ * Damage carrying an element: reacts with the target's aura (consuming it) or
+ * leaves a new aura, then resolves any reaction effects for the attacker `s`.
+ */
+function hitUnit(g: Game, s: Side, atk: UnitVM | null, index: number, dmg: number, element: string | null) {
+  const foe = foeOf(s);
+  const tgt = g.room.board[foe][index];
+  if (!tgt) return;
+  const r = element ? findReaction(element, tgt.applied) : null;
+  if (r) {
+    g.events.push({
+      type: "reaction",
+      side: foe,
+      target: tgt.code,
+      reaction: r.name,
+      element: element!,
+      aura: tgt.applied!,
+    });
+    g.room.lastReaction = {
+      side: foe,
+      target: tgt.code,
+      reaction: r.name,
+      seq: (g.room.lastReaction?.seq ?? 0) + 1,
+    };
+    delete tgt.applied;
+  } else if (element && isAuraElement(element)) {
+    tgt.applied = element;
+  }
+  damageUnit(g, foe, index, dmg + (r?.bonus ?? 0));
+  if (r) applyEffects(g, s, atk, r.effects, tgt);
+}
+
+/** resolves extra effects for side `s`; `atk` is the acting unit (null for cards), `hit` the main target */
+function applyEffects(g: Game, s: Side, atk: UnitVM | null, effects: AbilityEffect[], hit: UnitVM | null) {
+  const { room } = g;
+  const foe = foeOf(s);
+  const pick = (to: "target" | "self") => {
+    if (to === "self") return atk;
+    return hit && room.board[foe].includes(hit) ? hit : null; // gone if the hit was lethal
+  };
+  for (const e of effects) {
+    if (e.kind === "splash") {
+      for (let i = room.board[foe].length - 1; i >= 0; i--) {
+        if (room.board[foe][i] !== hit) hitUnit(g, s, atk, i, e.amount, e.element ?? null);
+      }
+    } else if (e.kind === "heal") {
+      const team = e.to === "self" ? (atk ? [atk] : []) : room.board[s];
+      for (const u of team) healUnit(g, s, u, e.amount);
+    } else if (e.kind === "status") {
+      const side = e.to === "target" || e.to === "enemies" ? foe : s;
+      let units: UnitVM[] = room.board[side];
+      if (e.to === "target" || e.to === "self") units = [pick(e.to)].filter((u): u is UnitVM => !!u);
+      for (const u of units) giveStatus(g, side, u, e.status, e.stacks, e.phases);
+    } else if (e.kind === "cleanse") {
+      const u = pick(e.to);
+      if (u && stacksOf(u, e.status) > 0) {
+        removeStatus(u, e.status);
+        g.events.push({ type: "statusExpired", side: e.to === "self" ? s : foe, target: u.code, status: e.status });
+      }
+    } else if (e.kind === "gauge") {
+      const u = pick(e.to);
+      if (u) u.gauge = Math.max(0, Math.min((u.gauge ?? 0) + e.n, GAUGE_MAX));
+    } else if (e.kind === "dice") {
+      const el = (e.element === "own" ? (atk?.element ?? "Neutral") : e.element) as ElementKind;
+      addDie(room.dice[s], el, e.n);
+      g.events.push({ type: "diceGained", side: s, element: el, n: e.n });
+    }
+  }
+}
+
+/**
+ * Paid switch: costs a die and ends the action like an attack. A side whose
+ * active character fell switches for free, even out of turn.
+ */
+function switchActive(g: Game, s: Side, index: number) {
+  const { room } = g;
+  const unit = room.board[s][index];
+  if (!unit) return;
+  const forced = room.pendingSwitch?.includes(s) ?? false;
+  if (!forced) {
+    if (room.mulligan) throw new Error("Finish the mulligan first");
+    if (room.roll) throw new Error("Confirm your dice first");
+    if (room.pendingSwitch?.length) throw new Error("Waiting for a new active character");
+    if (room.phaseActor !== s || index === room.active[s]) return;
+    const spent = spendAny(room.dice[s], SWITCH_COST);
+    if (!spent) throw new Error("Not enough dice to switch");
+    g.events.push({ type: "diceSpent", side: s, dice: spent });
+  }
+  room.active[s] = index;
+  g.events.push({ type: "activeSwitched", side: s, code: unit.code, ...(forced ? { forced } : {}) });
+  if (!forced) return passTurn(g, foeOf(s));
+  room.pendingSwitch = room.pendingSwitch!.filter((x) => x !== s);
+  if (!room.pendingSwitch.length) delete room.pendingSwitch;
+}
+
+function combat(
+  g: Game,
+  s: Side,
+  attackerIndex: number,
+  targetIndex: number | null,
+  mode: AttackMode
+) {
+  const { room } = g;
+  if (room.phaseActor !== s) return;
+  const foe = foeOf(s);
+  const atk = room.board[s][attackerIndex];
+  if (!atk) return;
+  if (attackerIndex !== room.active[s]) throw new Error("Only the active character can attack");
+  if (stacksOf(atk, "freeze") > 0) throw new Error(`${atk.code} is frozen`);
+  const targetAt = targetIndex ?? room.active[foe];
+  if (room.board[foe].length > 0 && !room.board[foe][targetAt]) return;
+
+  const poolD = room.dice[s];
+  let spent: DicePool | null = null;
+  let ability: AbilitySpec | null = null;
+
+  if (mode === "basic") {
+    spent = spendAny(poolD, BASIC_COST);
+    if (!spent) return;
+    atk.gauge = Math.min((atk.gauge ?? 0) + 1, GAUGE_MAX);
+  } else if (mode === "skill") {
+    spent = spendElement(poolD, atk.element as ElementKind, SKILL_COST);
+    if (!spent) return;
+    ability = abilityOf(findChar(atk.code)?.abilityCode).skill;
+    atk.gauge = Math.min((atk.gauge ?? 0) + 1, GAUGE_MAX);
+  } else if (mode === "ult") {
+    if ((atk.gauge ?? 0) < GAUGE_MAX) return;
+    spent = spendElement(poolD, atk.element as ElementKind, ULT_COST);
+    if (!spent) return;
+    ability = abilityOf(findChar(atk.code)?.abilityCode).ult;
+    atk.gauge = 0;
+  }
+
+  if (!spent) return;
+  g.events.push({ type: "diceSpent", side: s, dice: spent });
+  g.events.push({
+    type: "attack",
+    side: s,
+    attacker: atk.code,
+    mode,
+    ...(ability ? { ability: ability.name } : {}),
+  });
+
+  // basic attacks are physical; skills and ults carry the character's element
+  const dmg = atk.attack + (ability?.damage ?? 0);
+  const hit = room.board[foe][targetAt] ?? null;
+  if (!hit) damageHero(g, foe, dmg);
+  else hitUnit(g, s, atk, targetAt, dmg, ability ? atk.element : null);
+  if (ability) applyEffects(g, s, atk, ability.effects, hit);
+
+  passTurn(g, foe);
+}
+
+/* ========================= Match end ========================= */
+function finish(g: Game, winner: Side, reason: MatchEndReason) {
+  g.room.mode = "finished";
+  g.room.result = { winner, reason };
+  g.room.series[winner] += 1;
+  g.events.push({ type: "gameOver", winner, reason });
+}
+function concede(g: Game, s: Side) {
+  if (g.room.mode !== "play") return;
+  finish(g, foeOf(s), "concede");
+}
+
+/**
+ * Once both sides accept, the room goes back to a ready lobby with the same
+ * seats and series score; the side that went second starts the next match.
+ */
+function rematch(g: Game, s: Side) {
+  const { room } = g;
+  if (room.mode !== "finished") throw new Error("Match is not over yet");
+  room.rematch = { p1: false, p2: false, ...room.rematch, [s]: true };
+  g.events.push({ type: "rematchAccepted", side: s });
+  if (!(room.rematch.p1 && room.rematch.p2)) return;
+
+  const { id, rules } = room;
+  const keep = {
+    players: room.players,
+    spectators: room.spectators,
+    series: room.series,
+    lastReaction: room.lastReaction,
+    // the log is append-only for the room's lifetime, so seq keeps counting across matches
+    log: room.log,
+    ready: { p1: true, p2: true },
+    nextFirst: foeOf(room.coin.winner ?? "p2"),
+  };
+  for (const k of Object.keys(room)) delete (room as Record<string, unknown>)[k];
+  Object.assign(room, freshRoom(id, g.rng.save(), rules), keep);
+}
+
+/** a side loses when its hero falls or its whole board is wiped */
+function checkMatchEnd(g: Game) {
+  const { room } = g;
+  if (room.mode !== "play") return;
+  for (const s of ["p1", "p2"] as const) {
+    if (room.hero[s] <= 0) return finish(g, foeOf(s), "hero");
+    if (room.board[s].length === 0) return finish(g, foeOf(s), "wipe");
+  }
+}
+
+/* ========================= Entry point ========================= */
+/** play actions that are held back while the mulligan or a roll phase is open */
+export const WAITS_FOR_ROLL = new Set<GameAction["type"]>(["endTurn", "endPhase", "playCard", "discardForInfinite", "combat"]);
+
+/**
+ * Applies one action to a copy of `state`. Invalid or out-of-turn actions are
+ * no-ops (same state, no events), matching what the route always did; any
+ * action on a finished match throws.
+ */
+export function applyAction(state: RoomState, action: GameAction, rng?: Rng): ActionResult {
+  if (state.mode === "finished" && action.type !== "rematch") throw new Error("Match is already over");
+  if (state.mulligan && WAITS_FOR_ROLL.has(action.type)) throw new Error("Finish the mulligan first");
+  if (state.roll && WAITS_FOR_ROLL.has(action.type)) throw new Error("Confirm your dice first");
+  if (state.pendingSwitch?.length && WAITS_FOR_ROLL.has(action.type)) {
+    throw new Error("Waiting for a new active character");
+  }
+  const room = structuredClone(state);
+  const g: Game = { room, rng: rng ?? createRng(room.rng), events: [], fired: new Set() };
+  const rngBefore = g.rng.save();
+
+  switch (action.type) {
+    case "ready":
+      ready(g, action.side);
+      break;
+    case "start":
+      startGame(g, action.decks, action.first);
+      break;
+    case "ackCoin":
+      ackCoin(g, action.side);
+      break;
+    case "mulligan":
+      if (room.coin.decided && !room.coinAck[action.side]) throw new Error("Acknowledge the coin first");
+      mulligan(g, action.side, action.indices);
+      break;
+    case "rerollDice":
+      rerollDice(g, action.side, action.dice);
+      break;
+    case "confirmDice":
+      confirmDice(g, action.side);
+      break;
+    case "endTurn":
+      endTurn(g, action.side);
+      break;
+    case "endPhase":
+      endPhase(g, action.side);
+      break;
+    case "playCard":
+      playCard(g, action.side, action.index);
+      break;
+    case "discardForInfinite":
+      discardForInfinite(g, action.side, action.index);
+      break;
+    case "switchActive":
+      switchActive(g, action.side, action.index);
+      break;
+    case "combat":
+      combat(g, action.side, action.attacker, action.target, action.mode);
+      break;
+    case "timeout":
+      timeout(g, action.side);
+      break;
+    case "concede":
+      concede(g, action.side);
+      break;
+    case "rematch":
+      rematch(g, action.side);
+      break;
+  }
+
+  if (action.type === "start") {
+    room.record = { rng: rngBefore, rules: { ...room.rules }, actions: [action], logFrom: state.log.length };
+  }
+  else if (state.mode === "play") room.record?.actions.push(action);
+
+  checkMatchEnd(g);
+  for (const event of g.events) room.log.push({ seq: room.log.length + 1, phaseNo: room.phaseNo, event });
+  room.rng = g.rng.save();
+  return { state: room, events: g.events };
+}
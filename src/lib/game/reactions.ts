@@ -0,0 +1,75 @@
+// src/lib/game/reactions.ts
+import type { AbilityEffect } from "./abilities";
+
+/** elements that stay on a unit after hitting it (Anemo/Geo only react, Neutral/Infinite do nothing) */
+export const AURA_ELEMENTS = ["Pyro", "Hydro", "Cryo", "Electro", "Quantum", "Imaginary"] as const;
+const BASIC_AURAS = ["Pyro", "Hydro", "Cryo", "Electro"];
+
+export type Reaction = {
+  name: string;
+  text: string;
+  /** added to the triggering hit */
+  bonus: number;
+  /** resolved after the hit, from the attacker's point of view ("target" = the reacting unit) */
+  effects: AbilityEffect[];
+};
+
+const reaction = (name: string, text: string, bonus: number, effects: AbilityEffect[] = []): Reaction => ({
+  name,
+  text,
+  bonus,
+  effects,
+});
+
+/* ========================= Table (unordered pairs) ========================= */
+const key = (a: string, b: string) => [a, b].sort().join("+");
+
+const TABLE: Record<string, Reaction> = {
+  [key("Pyro", "Cryo")]: reaction("Melt", "+2 damage.", 2),
+  [key("Pyro", "Hydro")]: reaction("Vaporize", "+2 damage.", 2),
+  [key("Pyro", "Electro")]: reaction("Overloaded", "+2 damage.", 2),
+  [key("Hydro", "Cryo")]: reaction("Frozen", "+1 damage and Freeze the target for the rest of the phase.", 1, [
+    { kind: "status", status: "freeze", stacks: 1, phases: 1, to: "target" },
+  ]),
+  [key("Electro", "Hydro")]: reaction("Electro-Charged", "+1 damage and 1 damage to all other enemies.", 1, [
+    { kind: "splash", amount: 1 },
+  ]),
+  [key("Electro", "Cryo")]: reaction("Superconduct", "+1 damage and the target loses its Shield.", 1, [
+    { kind: "cleanse", status: "shield", to: "target" },
+  ]),
+  [key("Quantum", "Imaginary")]: reaction("Paradox", "+3 damage.", 3),
+};
+
+/** Quantum/Imaginary against the four basic auras */
+const QUANTUM_ON_BASIC = reaction("Entangle", "+1 damage and the target loses 1 ULT gauge.", 1, [
+  { kind: "gauge", n: -1, to: "target" },
+]);
+const IMAGINARY_ON_BASIC = reaction("Illusion", "+1 damage and gain 1 Infinite die.", 1, [
+  { kind: "dice", element: "Infinite", n: 1 },
+]);
+
+/**
+ * Reaction for `incoming` damage hitting a unit carrying `aura`, or null.
+ * Swirl spreads the aura element; Crystallize shields the attacker.
+ */
+export function findReaction(incoming: string, aura: string | null | undefined): Reaction | null {
+  if (!aura) return null;
+  const basicAura = BASIC_AURAS.includes(aura);
+  if (incoming === "Anemo" && basicAura) {
+    return reaction("Swirl", `1 ${aura} damage to all other enemies.`, 0, [
+      { kind: "splash", amount: 1, element: aura },
+    ]);
+  }
+  if (incoming === "Geo" && basicAura) {
+    return reaction("Crystallize", "+1 damage and the attacker gains 1 Shield for 2 phases.", 1, [
+      { kind: "status", status: "shield", stacks: 1, phases: 2, to: "self" },
+    ]);
+  }
+  if (incoming === "Quantum" && basicAura) return QUANTUM_ON_BASIC;
+  if (incoming === "Imaginary" && basicAura) return IMAGINARY_ON_BASIC;
+  return TABLE[key(incoming, aura)] ?? null;
+}
+
+export function isAuraElement(el: string): boolean {
+  return (AURA_ELEMENTS as readonly string[]).includes(el);
+}
@@ -0,0 +1,112 @@
+// src/lib/game/replay.ts
+//
+// Replays are the match record (RNG + rules at "start" and every action since)
+// plus a little metadata. The engine is deterministic, so re-applying the
+// actions from the same RNG reproduces every intermediate state.
+import { applyAction, freshRoom } from "./engine";
+import type { GameAction, MatchResult, RngState, RoomRules, RoomState, Side } from "./types";
+
+/** bump when the shape changes or old replays would no longer re-run the same */
+export const REPLAY_VERSION = 1;
+
+export type Replay = {
+  version: number;
+  roomId: string;
+  /** see matchIdOf; missing in replays exported before matches had ids */
+  matchId?: string;
+  /** display names at export time */
+  players: Record<Side, string>;
+  startedAt?: number;
+  endedAt?: number;
+  result?: MatchResult;
+  rng: RngState;
+  rules: RoomRules;
+  actions: GameAction[];
+};
+
+/** "ROOMID-k" for the room's k-th finished match (rematches keep counting in the series) */
+export function matchIdOf(room: RoomState): string {
+  return `${room.id}-${room.series.p1 + room.series.p2}`;
+}
+
+export function replayOf(room: RoomState): Replay {
+  if (!room.record) throw new Error("No match recorded in this room");
+  return {
+    version: REPLAY_VERSION,
+    roomId: room.id,
+    matchId: room.result ? matchIdOf(room) : undefined,
+    players: {
+      p1: room.players.p1?.name ?? "Host",
+      p2: room.players.p2?.name ?? "Player",
+    },
+    startedAt: room.startedAt,
+    endedAt: room.endedAt,
+    result: room.result,
+    rng: room.record.rng,
+    rules: room.record.rules,
+    actions: room.record.actions,
+  };
+}
+
+/** checks an uploaded/downloaded replay before it is re-run */
+export function parseReplay(raw: unknown): Replay {
+  const r = raw as Partial<Replay> | null;
+  if (!r || typeof r !== "object") throw new Error("Not a replay file");
+  if (r.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${String(r.version)}`);
+  if (!r.rng || !r.rules || !Array.isArray(r.actions) || r.actions[0]?.type !== "start") {
+    throw new Error("Replay is missing its match record");
+  }
+  return r as Replay;
+}
+
+/** the lobby the recorded match started from, both sides ready */
+function openingRoom(replay: Replay): RoomState {
+  const room = freshRoom(replay.roomId, replay.rng, replay.rules);
+  room.ready = { p1: true, p2: true };
+  room.players = {
+    p1: { userId: "p1", name: replay.players.p1 },
+    p2: { userId: "p2", name: replay.players.p2 },
+  };
+  return room;
+}
+
+/** room state after each action; frames[0] is the opening deal */
+export function replayFrames(replay: Replay): RoomState[] {
+  let room = openingRoom(replay);
+  const frames: RoomState[] = [];
+  for (const action of replay.actions) {
+    room = applyAction(room, action).state;
+    frames.push(room);
+  }
+  return frames;
+}
+
+/** rooms whose delayed frame is kept; the least recently used one goes first */
+const FRAME_CACHE_ROOMS = 200;
+/** latest delayed frame per room, so a feed that moves forward only re-runs the new actions */
+const frameCache = new Map<string, { rng: RngState; n: number; frame: RoomState }>();
+
+/**
+ * The live room as it stood after its first `n` recorded actions (n = 0: the
+ * lobby just before the start). Seats and spectators are the current ones.
+ */
+export function roomAfter(room: RoomState, n: number): RoomState {
+  const replay = replayOf(room);
+  // the start RNG tells one match in the room from the next
+  const hit = frameCache.get(room.id);
+  const reuse = hit && hit.rng.seed === replay.rng.seed && hit.rng.state === replay.rng.state && hit.n <= n;
+  let then = reuse ? hit.frame : openingRoom(replay);
+  for (const action of replay.actions.slice(reuse ? hit.n : 0, n)) then = applyAction(then, action).state;
+
+  frameCache.delete(room.id);
+  frameCache.set(room.id, { rng: replay.rng, n, frame: then });
+  if (frameCache.size > FRAME_CACHE_ROOMS) frameCache.delete(frameCache.keys().next().value!);
+
+  // the live series already counts a result the delayed frame hasn't reached
+  const series = { ...room.series };
+  if (room.result && !then.result) series[room.result.winner] -= 1;
+  // re-runs log from seq 1; put the room's earlier entries back in front so seq lines up with the live log
+  const base = room.record?.logFrom ?? 0;
+  const log = base ? [...room.log.slice(0, base), ...then.log.map((e) => ({ ...e, seq: e.seq + base }))] : then.log;
+  return { ...then, log, players: room.players, spectators: room.spectators, series };
+}
@@ -0,0 +1,38 @@
+// src/lib/game/rng.ts
+import type { RngState } from "./types";
+
+export type Rng = {
+  /** float in [0, 1) */
+  next: () => number;
+  /** integer in [0, n) */
+  int: (n: number) => number;
+  /** snapshot to store back into RoomState */
+  save: () => RngState;
+};
+
+/** mulberry32 — small, fast and good enough for shuffles and dice */
+export function createRng(from: RngState): Rng {
+  let s = from.state >>> 0;
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (n) => (next() * n) | 0,
+    save: () => ({ seed: from.seed, state: s }),
+  };
+}
+
+export function seedRng(seed: number): RngState {
+  const s = seed >>> 0;
+  return { seed: s, state: s };
+}
+
+/** non-deterministic seed for new rooms (adapters only, never inside the engine) */
+export function randomSeed(): number {
+  return (Math.random() * 4294967296) >>> 0;
+}
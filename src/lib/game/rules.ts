@@ -0,0 +1,12 @@
+// src/lib/game/rules.ts
+import type { RoomRules } from "./types";
+
+/** per-room knobs; copied into RoomState when the room is created */
+export const DEFAULT_RULES: RoomRules = {
+  rerolls: 1,
+  turnSeconds: 60,
+  bankSeconds: 120,
+  maxTimeouts: 3,
+  maxHand: 10,
+  spectatorDelay: 0,
+};
@@ -0,0 +1,71 @@
+// src/lib/game/statuses.ts
+import type { StatusKind, UnitStatus, UnitVM } from "./types";
+
+/* ========================= Catalogue ========================= */
+export const STATUS_INFO: Record<StatusKind, { label: string; icon: string; text: string }> = {
+  burn: {
+    label: "Burn",
+    icon: "🔥",
+    text: "Takes 1 damage per stack at the end of each phase; healing is reduced by its stacks.",
+  },
+  freeze: { label: "Freeze", icon: "❄️", text: "Cannot attack or use abilities." },
+  shield: { label: "Shield", icon: "🛡", text: "Absorbs damage; each absorbed point removes one stack." },
+  armor: { label: "Armor", icon: "🪨", text: "Reduces every hit by its stacks." },
+};
+
+/* ========================= Helpers (mutate the unit in place) ========================= */
+export function statusOf(u: UnitVM, kind: StatusKind): UnitStatus | undefined {
+  return u.statuses?.find((st) => st.kind === kind);
+}
+export function stacksOf(u: UnitVM, kind: StatusKind): number {
+  return statusOf(u, kind)?.stacks ?? 0;
+}
+
+/** stacks add up; duration refreshes to the longer of the two */
+export function addStatus(u: UnitVM, kind: StatusKind, stacks: number, phases: number) {
+  const cur = statusOf(u, kind);
+  if (cur) {
+    cur.stacks += stacks;
+    cur.phases = Math.max(cur.phases, phases);
+    return;
+  }
+  u.statuses = [...(u.statuses ?? []), { kind, stacks, phases }];
+}
+
+export function removeStatus(u: UnitVM, kind: StatusKind) {
+  u.statuses = (u.statuses ?? []).filter((st) => st.kind !== kind);
+}
+
+/** damage hook: armor reduces the hit, then shield soaks what is left */
+export function mitigate(u: UnitVM, dmg: number): { taken: number; blocked: number } {
+  const reduced = Math.max(0, dmg - stacksOf(u, "armor"));
+  const shield = statusOf(u, "shield");
+  const soaked = Math.min(shield?.stacks ?? 0, reduced);
+  if (shield && soaked > 0) {
+    shield.stacks -= soaked;
+    if (shield.stacks <= 0) removeStatus(u, "shield");
+  }
+  return { taken: reduced - soaked, blocked: dmg - (reduced - soaked) };
+}
+
+/** heal hook: burn eats into incoming healing */
+export function healAmount(u: UnitVM, amount: number): number {
+  return Math.max(0, amount - stacksOf(u, "burn"));
+}
+
+/**
+ * End-of-phase tick: returns burn damage due now and the statuses that ran out.
+ * Burn is read before durations count down so its last phase still hurts.
+ */
+export function tickStatuses(u: UnitVM): { burn: number; expired: StatusKind[] } {
+  const burn = stacksOf(u, "burn");
+  const expired: StatusKind[] = [];
+  const keep: UnitStatus[] = [];
+  for (const st of u.statuses ?? []) {
+    const phases = st.phases - 1;
+    if (phases <= 0 || st.stacks <= 0) expired.push(st.kind);
+    else keep.push({ ...st, phases });
+  }
+  u.statuses = keep;
+  return { burn, expired };
+}
@@ -0,0 +1,41 @@
+// src/lib/game/supports.ts
+import type { AbilityEffect } from "./abilities";
+
+/** max supports a side can have on the table at once */
+export const SUPPORT_SLOTS = 4;
+
+/* ========================= Types ========================= */
+/**
+ * phaseStart  — when a new phase begins (after statuses tick)
+ * unitDamaged — the first time one of your units takes damage during an action
+ */
+export type SupportTrigger = "phaseStart" | "unitDamaged";
+
+export type SupportDef = {
+  trigger: SupportTrigger;
+  /** triggers before the support is discarded */
+  uses: number;
+  text: string;
+  /** resolved for the owner; "self" is the damaged unit for unitDamaged */
+  effects: AbilityEffect[];
+};
+
+/* ========================= Registry (keyed by card code) ========================= */
+export const SUPPORTS: Record<string, SupportDef> = {
+  HEALING_AMULET: {
+    trigger: "phaseStart",
+    uses: 3,
+    text: "At the start of each phase, heal every ally 2 HP. 3 uses.",
+    effects: [{ kind: "heal", amount: 2, to: "team" }],
+  },
+  BLAZING_SIGIL: {
+    trigger: "unitDamaged",
+    uses: 2,
+    text: "When one of your units takes damage, give every ally 2 Shield for 1 phase. 2 uses.",
+    effects: [{ kind: "status", status: "shield", stacks: 2, phases: 1, to: "team" }],
+  },
+};
+
+export function supportOf(code: string): SupportDef | undefined {
+  return SUPPORTS[code];
+}
@@ -0,0 +1,230 @@
+// src/lib/game/types.ts
+
+/* ========================= Cards ========================= */
+export type CharacterCard = {
+  char_id: number;
+  code: string;
+  name: string;
+  element: string;
+  attack: number;
+  hp: number;
+  cost: number;
+  abilityCode: string;
+  art: string;
+};
+export type SupportCard = {
+  id: number;
+  code: string;
+  name: string;
+  element: string;
+  cost: number;
+  text: string;
+  art: string;
+};
+export type EventCard = {
+  id: number;
+  code: string;
+  name: string;
+  element: string;
+  cost: number;
+  text: string;
+  art: string;
+};
+export type CardsData = { characters: CharacterCard[]; supports: SupportCard[]; events: EventCard[] };
+
+export const ELEMENTS = [
+  "Pyro",
+  "Hydro",
+  "Cryo",
+  "Electro",
+  "Geo",
+  "Anemo",
+  "Quantum",
+  "Imaginary",
+  "Neutral",
+  "Infinite",
+] as const;
+export type ElementKind = (typeof ELEMENTS)[number];
+
+/* ========================= Room ========================= */
+export type Side = "p1" | "p2";
+export type DicePool = Record<string, number>;
+export type StatusKind = "burn" | "freeze" | "shield" | "armor";
+/** `phases` counts down at every end-of-phase transition; the status drops at 0 */
+export type UnitStatus = { kind: StatusKind; stacks: number; phases: number };
+
+export type UnitVM = {
+  code: string;
+  element: string;
+  attack: number;
+  hp: number;
+  gauge?: number;
+  statuses?: UnitStatus[];
+  /** element aura left by the last elemental hit, consumed by a reaction */
+  applied?: string;
+};
+/** a support card on the table; `uses` counts down on every trigger */
+export type SupportVM = { code: string; uses: number };
+export type PlayerInfo = { userId: string; name?: string | null; avatar?: string | null };
+
+/** why a match ended; the loser is the other side of `winner` */
+export type MatchEndReason = "hero" | "wipe" | "concede" | "timeout";
+export type MatchResult = { winner: Side; reason: MatchEndReason };
+
+export type RoomRules = {
+  /** rerolls each side gets per roll phase */
+  rerolls: number;
+  /** time for each decision (and for the roll phase) before the bank starts draining */
+  turnSeconds: number;
+  /** per-player reserve for the whole match */
+  bankSeconds: number;
+  /** timeouts that forfeit the match */
+  maxTimeouts: number;
+  /** cards drawn past this many in hand are burned */
+  maxHand: number;
+  /** seconds the spectator feed runs behind the live match (0 = live) */
+  spectatorDelay: number;
+};
+
+/** opening hand swap; `picks` stay hidden until both sides have chosen */
+export type MulliganPhase = { done: Record<Side, boolean>; picks: Partial<Record<Side, number[]>> };
+
+/** open while either side is still choosing dice; play actions wait for it */
+export type RollPhase = { confirmed: Record<Side, boolean>; rerolls: Record<Side, number> };
+
+/**
+ * Wall-clock turn timer, stamped by the route (see clock.ts).
+ * `on` is the side expected to act, or "mulligan"/"roll" while both sides choose at once.
+ */
+export type TurnClock = { on: Side | "roll" | "mulligan"; since: number; bank: Record<Side, number> };
+
+/** mulberry32 state; `seed` is kept so a game can be replayed from the start */
+export type RngState = { seed: number; state: number };
+
+export type RoomState = {
+  id: string;
+  mode: "lobby" | "play" | "finished";
+  players: Partial<Record<Side, PlayerInfo>>;
+  /** watchers without a seat; they get the read-only view */
+  spectators: PlayerInfo[];
+  ready: Record<Side, boolean>;
+  coin: { decided: boolean; winner?: Side };
+  coinAck: Record<Side, boolean>;
+  phaseNo: number;
+  turn: Side;
+  phaseActor: Side;
+  endTurned: Record<Side, boolean>;
+  phaseEndOrder: Side[];
+  hero: Record<Side, number>;
+  board: Record<Side, UnitVM[]>;
+  /** board index of each side's active character (the only one that attacks or gets hit by default) */
+  active: Record<Side, number>;
+  /** sides whose active character fell and must pick a new one (free) before play goes on */
+  pendingSwitch?: Side[];
+  hand: Record<Side, string[]>;
+  deck: Record<Side, string[]>;
+  dice: Record<Side, DicePool>;
+  mulligan?: MulliganPhase;
+  roll?: RollPhase;
+  supports: Record<Side, SupportVM[]>;
+  /** characters and deck each side started with (after fallbacks) */
+  loadout?: Record<Side, DeckLoadout>;
+  result?: MatchResult;
+  /** most recent reaction, for the board to flash; `seq` only ever goes up */
+  lastReaction?: { side: Side; target: string; reaction: string; seq: number };
+  /** every event the engine emitted, oldest first; append-only */
+  log: LogEntry[];
+  /** what it takes to re-run the current match (see replay.ts) */
+  record?: MatchRecord;
+  /** wall-clock ms, stamped by the route (the engine never reads the clock) */
+  startedAt?: number;
+  endedAt?: number;
+  clock?: TurnClock;
+  /** timeouts so far this match; rules.maxTimeouts forfeits */
+  timeouts: Record<Side, number>;
+  /** draws attempted from an empty deck; each one hurts the hero for the new count */
+  fatigue: Record<Side, number>;
+  /** wins across rematches in this room */
+  series: Record<Side, number>;
+  /** latest client action ids the route applied (dedupes retries) */
+  actionIds?: string[];
+  /** room version of the last save that changed more than the spectator list; turn actions are checked against it */
+  gameVersion?: number;
+  /** who has asked for a rematch of the finished match */
+  rematch?: Record<Side, boolean>;
+  /** who starts the next match after a rematch (instead of the coin) */
+  nextFirst?: Side;
+  rules: RoomRules;
+  rng: RngState;
+  warnNoDeck?: string[];
+};
+
+/* ========================= Actions / events ========================= */
+export type AttackMode = "basic" | "skill" | "ult";
+
+/**
+ * characters + support/event codes chosen by a player (unshuffled);
+ * `chars` start on the board, character codes in `deck` are reserves deployed from hand
+ */
+export type DeckLoadout = { chars: string[]; deck: string[] };
+
+export type GameAction =
+  | { type: "ready"; side: Side }
+  | { type: "start"; decks: Record<Side, DeckLoadout | null>; first?: Side }
+  | { type: "ackCoin"; side: Side }
+  | { type: "mulligan"; side: Side; indices: number[] }
+  | { type: "rerollDice"; side: Side; dice: DicePool }
+  | { type: "confirmDice"; side: Side }
+  | { type: "endTurn"; side: Side }
+  | { type: "endPhase"; side: Side }
+  | { type: "playCard"; side: Side; index: number }
+  | { type: "discardForInfinite"; side: Side; index: number }
+  | { type: "switchActive"; side: Side; index: number }
+  | { type: "combat"; side: Side; attacker: number; target: number | null; mode: AttackMode }
+  | { type: "timeout"; side: Side } // sent by the clock, never by a client
+  | { type: "concede"; side: Side }
+  | { type: "rematch"; side: Side };
+
+export type GameEvent =
+  | { type: "gameStarted"; first: Side }
+  | { type: "cardDrawn"; side: Side; code?: string } // code is hidden from the other side
+  | { type: "cardBurned"; side: Side; code: string }
+  | { type: "fatigue"; side: Side; amount: number }
+  | { type: "cardPlayed"; side: Side; code: string }
+  | { type: "supportPlaced"; side: Side; code: string }
+  | { type: "unitDeployed"; side: Side; code: string }
+  | { type: "supportTriggered"; side: Side; code: string; uses: number }
+  | { type: "supportDiscarded"; side: Side; code: string }
+  | { type: "cardDiscarded"; side: Side; code: string }
+  | { type: "mulliganChosen"; side: Side }
+  | { type: "mulliganDone"; side: Side; n: number }
+  | { type: "diceRolled"; side: Side; dice?: DicePool; reroll: boolean } // dice hidden from the other side
+  | { type: "diceConfirmed"; side: Side }
+  | { type: "diceGained"; side: Side; element: string; n: number }
+  | { type: "diceSpent"; side: Side; dice: DicePool }
+  | { type: "attack"; side: Side; attacker: string; mode: AttackMode; ability?: string }
+  | { type: "damage"; side: Side; target: string | "hero"; amount: number; blocked?: number; source?: StatusKind }
+  | { type: "statusApplied"; side: Side; target: string; status: StatusKind; stacks: number; phases: number }
+  | { type: "statusExpired"; side: Side; target: string; status: StatusKind }
+  | { type: "reaction"; side: Side; target: string; reaction: string; element: string; aura: string }
+  | { type: "heal"; side: Side; target: string | "hero"; amount: number }
+  | { type: "unitDefeated"; side: Side; code: string }
+  | { type: "activeSwitched"; side: Side; code: string; forced?: boolean }
+  | { type: "turnPassed"; to: Side }
+  | { type: "phaseEnded"; side: Side }
+  | { type: "timedOut"; side: Side; strikes: number }
+  | { type: "phaseAdvanced"; phaseNo: number; starter: Side }
+  | { type: "gameOver"; winner: Side; reason: MatchEndReason }
+  | { type: "rematchAccepted"; side: Side };
+
+/**
+ * RNG and rules as they were at "start", then every action applied from it on.
+ * `at` is the wall-clock ms each action was saved at, stamped by the route (for delayed spectating);
+ * `logFrom` is how many room log entries came before the match (earlier matches, the lobby).
+ */
+export type MatchRecord = { rng: RngState; rules: RoomRules; actions: GameAction[]; at?: number[]; logFrom?: number };
+
+/** one log line: `seq` counts from 1 and never repeats within a room */
+export type LogEntry = { seq: number; phaseNo: number; event: GameEvent };
+
+export type ActionResult = { state: RoomState; events: GameEvent[] };
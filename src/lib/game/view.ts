@@ -0,0 +1,93 @@
+// src/lib/game/view.ts
+//
+// What a viewer may see of a room. Seated players get their own hand and dice;
+// the opponent's (and, for spectators, both sides') are reduced to counts.
+// Deck contents, the RNG and player ids never leave the server.
+import { clockView } from "./clock";
+import { diceTotal } from "./engine";
+import { matchIdOf, roomAfter } from "./replay";
+import type { DicePool, LogEntry, RoomState, Side } from "./types";
+
+const SIDES: Side[] = ["p1", "p2"];
+
+function ownOnly<T>(rec: Record<Side, T>, viewer: Side | null): Partial<Record<Side, T>> {
+  return viewer ? { [viewer]: rec[viewer] } : {};
+}
+function countBy<T>(rec: Record<Side, T>, count: (v: T) => number): Record<Side, number> {
+  return Object.fromEntries(SIDES.map((s) => [s, count(rec[s])])) as Record<Side, number>;
+}
+
+/** strips what only the acting side may know: drawn card codes and rolled faces */
+function redactEntry(entry: LogEntry, viewer: Side | null): LogEntry {
+  const e = entry.event;
+  if (e.type === "cardDrawn" && e.side !== viewer) return { ...entry, event: { type: e.type, side: e.side } };
+  if (e.type === "diceRolled" && e.side !== viewer) {
+    return { ...entry, event: { type: e.type, side: e.side, reroll: e.reroll } };
+  }
+  return entry;
+}
+
+export function viewFor(room: RoomState, viewer: Side | null) {
+  return {
+    mode: room.mode,
+    players: {
+      p1: room.players.p1
+        ? { name: room.players.p1.name ?? "Host", avatar: room.players.p1.avatar ?? null }
+        : undefined,
+      p2: room.players.p2
+        ? { name: room.players.p2.name ?? "Player", avatar: room.players.p2.avatar ?? null }
+        : undefined,
+    },
+    coin: room.coin,
+    coinAck: room.coinAck,
+    turn: room.turn,
+    phaseNo: room.phaseNo,
+    phaseActor: room.phaseActor,
+    endTurned: room.endTurned,
+    hero: room.hero,
+    dice: ownOnly(room.dice, viewer),
+    diceCount: countBy(room.dice, (d: DicePool) => diceTotal(d)),
+    // picks stay hidden until both are in; only who has chosen is shown
+    mulligan: room.mulligan ? { done: room.mulligan.done } : undefined,
+    roll: room.roll,
+    supports: room.supports,
+    board: room.board,
+    active: room.active,
+    pendingSwitch: room.pendingSwitch ?? [],
+    hand: ownOnly(room.hand, viewer),
+    handCount: countBy(room.hand, (h: string[]) => h.length),
+    deckCount: countBy(room.deck, (d: string[]) => d.length),
+    ready: room.ready,
+    result: room.result,
+    lastReaction: room.lastReaction,
+    clock: clockView(room),
+    rules: room.rules,
+    timeouts: room.timeouts,
+    fatigue: room.fatigue,
+    series: room.series,
+    rematch: room.rematch,
+    // the finished match's replay is kept under this id
+    matchId: room.result ? matchIdOf(room) : undefined,
+    log: room.log.map((entry) => redactEntry(entry, viewer)),
+    you: viewer ?? undefined,
+    spectators: room.spectators.length,
+    warnNoDeck: room.warnNoDeck,
+  };
+}
+
+/**
+ * What a spectator sees: both hands and dice hidden, and the match as it stood
+ * `rules.spectatorDelay` seconds ago (re-run from the match record).
+ */
+export function spectatorView(room: RoomState, now: number) {
+  const delay = room.rules.spectatorDelay * 1000;
+  const at = room.record?.at;
+  let shown = room;
+  if (delay > 0 && at) {
+    const n = at.filter((t) => t <= now - delay).length;
+    if (n < at.length) shown = roomAfter(room, n);
+  }
+  return { ...viewFor(shown, null), watching: true, delayed: room.rules.spectatorDelay };
+}
+
+export type RoomView = ReturnType<typeof viewFor>;
@@ -0,0 +1,41 @@
+// src/lib/guest.ts
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+/**
+ * Signed guest identities for players without a Discord session.
+ * Token = "<guestId>.<hmac>"; the server never trusts a guest id it did not sign.
+ */
+
+/** prefix that keeps guest ids apart from Discord ids */
+export const GUEST_PREFIX = "guest:";
+
+let devSecret: string | null = null;
+function secret(): string {
+  const s = process.env.NEXTAUTH_SECRET ?? process.env.AUTH_SECRET ?? "";
+  if (s) return s;
+  // no secret configured: tokens only survive until the server restarts
+  if (!devSecret) {
+    devSecret = randomBytes(32).toString("hex");
+    console.warn("[guest] NEXTAUTH_SECRET is not set; guest tokens will not survive a restart");
+  }
+  return devSecret;
+}
+
+const sign = (id: string) => createHmac("sha256", secret()).update(`${GUEST_PREFIX}${id}`).digest("base64url");
+
+export function issueGuestToken(): { userId: string; token: string } {
+  const id = randomBytes(9).toString("base64url");
+  return { userId: `${GUEST_PREFIX}${id}`, token: `${id}.${sign(id)}` };
+}
+
+/** guest userId for a valid token, otherwise null */
+export function verifyGuestToken(token: string | null | undefined): string | null {
+  if (!token) return null;
+  const dot = token.indexOf(".");
+  if (dot <= 0) return null;
+  const id = token.slice(0, dot);
+  const got = Buffer.from(token.slice(dot + 1));
+  const want = Buffer.from(sign(id));
+  if (got.length !== want.length || !timingSafeEqual(got, want)) return null;
+  return `${GUEST_PREFIX}${id}`;
+}
@@ -0,0 +1,75 @@
+// src/lib/roomFeed.ts
+import { EventEmitter } from "node:events";
+
+/**
+ * In-process fan-out of room version bumps, fed by the game route's saveRoom
+ * and read by the SSE stream and held getState polls. Only versions go out;
+ * clients fetch their own redacted state. Saves on other server instances
+ * never reach this process, so while a room has listeners and Supabase is on,
+ * one shared poll of `rooms.version` per room feeds them as well.
+ */
+const g = globalThis as typeof globalThis & {
+  __NOF_FEED__?: EventEmitter;
+  __NOF_FEED_WATCH__?: Map<string, { timer: ReturnType<typeof setInterval>; last: number }>;
+};
+if (!g.__NOF_FEED__) {
+  g.__NOF_FEED__ = new EventEmitter();
+  // one listener per open stream or held poll
+  g.__NOF_FEED__.setMaxListeners(0);
+}
+if (!g.__NOF_FEED_WATCH__) g.__NOF_FEED_WATCH__ = new Map();
+const feed = g.__NOF_FEED__;
+const watches = g.__NOF_FEED_WATCH__;
+
+const DB_ON = Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY);
+/** how often a watched room's saved version is re-read */
+const DB_CHECK_MS = 1_000;
+
+async function savedVersion(key: string): Promise<number | null> {
+  // loaded lazily: the shared client can't be built without the Supabase env
+  const { supa } = await import("./supabase");
+  const { data } = await supa.from("rooms").select("version").eq("id", key).maybeSingle();
+  return data ? Number((data as { version: unknown }).version) : null;
+}
+
+/** emits each version once, whether this process saved it or the poll found it */
+function announce(key: string, version: number) {
+  const w = watches.get(key);
+  if (w) {
+    if (version <= w.last) return;
+    w.last = version;
+  }
+  feed.emit(key, version);
+}
+
+function watch(key: string) {
+  if (!DB_ON || watches.has(key)) return;
+  const timer = setInterval(() => {
+    savedVersion(key)
+      .then((v) => v != null && announce(key, v))
+      .catch(() => {});
+  }, DB_CHECK_MS);
+  watches.set(key, { timer, last: 0 });
+}
+
+function unwatch(key: string) {
+  const w = watches.get(key);
+  if (!w || feed.listenerCount(key) > 0) return;
+  clearInterval(w.timer);
+  watches.delete(key);
+}
+
+export function publishRoomVersion(roomId: string, version: number) {
+  announce(roomId.toUpperCase(), version);
+}
+
+/** returns the unsubscribe function */
+export function onRoomVersion(roomId: string, listener: (version: number) => void): () => void {
+  const key = roomId.toUpperCase();
+  feed.on(key, listener);
+  watch(key);
+  return () => {
+    feed.off(key, listener);
+    unwatch(key);
+  };
+}
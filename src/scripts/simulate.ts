@@ -0,0 +1,203 @@
+// src/scripts/simulate.ts
+//
+// Headless bot-vs-bot games for balancing cards.json, run in-process on the
+// engine with one seed per game (game i uses seed + i), so a run repeats exactly.
+//
+//   npm run sim -- --games 2000 --seed 1
+//   npm run sim -- --p1 GOD,BLAZE_KNIGHT,FROST_ARCHER --deck1 FIREWORKS,FIREWORKS,HEALING_AMULET
+//   npm run sim -- --decks decks.json --out results.json
+//   npm run sim -- --json
+//
+// --p1/--p2 pick the board characters and --deck1/--deck2 the deck codes; a
+// side left out gets the engine's random loadout each game. --decks reads
+// { "p1": { "chars": [], "deck": [] }, "p2": { ... } } from a file instead.
+import fs from "fs";
+import path from "path";
+import { chooseAction } from "@/lib/game/bot";
+import { findActionCard, findChar } from "@/lib/game/cards";
+import { applyAction, freshRoom } from "@/lib/game/engine";
+import { seedRng } from "@/lib/game/rng";
+import type { DeckLoadout, MatchEndReason, RoomState, Side } from "@/lib/game/types";
+
+const SIDES: Side[] = ["p1", "p2"];
+
+/* ========================= Args ========================= */
+function arg(name: string): string | undefined {
+  const at = process.argv.indexOf(`--${name}`);
+  if (at < 0) return undefined;
+  const next = process.argv[at + 1];
+  return next && !next.startsWith("--") ? next : "";
+}
+function intArg(name: string, fallback: number): number {
+  const n = Math.floor(Number(arg(name)));
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+function known(list: string[]): string[] {
+  const out = list.map((c) => c.trim().toUpperCase()).filter(Boolean);
+  for (const c of out) if (!findChar(c) && !findActionCard(c)) throw new Error(`Unknown card: ${c}`);
+  return out;
+}
+
+function decksFromArgs(): Record<Side, DeckLoadout | null> {
+  const file = arg("decks");
+  if (file) {
+    const raw = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), "utf8")) as Partial<
+      Record<Side, DeckLoadout>
+    >;
+    const check = (d: DeckLoadout | undefined) => (d ? { chars: known(d.chars ?? []), deck: known(d.deck ?? []) } : null);
+    return { p1: check(raw.p1), p2: check(raw.p2) };
+  }
+  const side = (chars: string | undefined, deck: string | undefined): DeckLoadout | null => {
+    if (chars == null && deck == null) return null;
+    return { chars: known((chars ?? "").split(",")), deck: known((deck ?? "").split(",")) };
+  };
+  return { p1: side(arg("p1"), arg("deck1")), p2: side(arg("p2"), arg("deck2")) };
+}
+
+/* ========================= One game ========================= */
+type GameResult = {
+  seed: number;
+  first: Side;
+  winner: Side | null;
+  reason: MatchEndReason | null;
+  phases: number;
+  actions: number;
+  /** characters each side fielded: the opening board plus deployed reserves */
+  fielded: Record<Side, string[]>;
+  drawn: Record<string, number>;
+  played: Record<string, number>;
+};
+
+function playGame(seed: number, decks: Record<Side, DeckLoadout | null>, maxActions: number): GameResult {
+  let room: RoomState = freshRoom("SIM", seedRng(seed));
+  room.players = { p1: { userId: "bot:p1", name: "P1" }, p2: { userId: "bot:p2", name: "P2" } };
+  room = applyAction(room, { type: "ready", side: "p1" }).state;
+  room = applyAction(room, { type: "ready", side: "p2" }).state;
+  room = applyAction(room, { type: "start", decks }).state;
+
+  for (let n = 0; room.mode === "play" && n < maxActions; n++) {
+    const action = chooseAction(room, "p1") ?? chooseAction(room, "p2");
+    if (!action) break;
+    room = applyAction(room, action).state;
+  }
+
+  const result: GameResult = {
+    seed,
+    first: "p1",
+    winner: room.result?.winner ?? null,
+    reason: room.result?.reason ?? null,
+    phases: room.phaseNo,
+    actions: room.record?.actions.length ?? 0,
+    fielded: { p1: [...(room.loadout?.p1.chars ?? [])], p2: [...(room.loadout?.p2.chars ?? [])] },
+    drawn: {},
+    played: {},
+  };
+  for (const { event } of room.log) {
+    if (event.type === "gameStarted") result.first = event.first;
+    if (event.type === "unitDeployed") result.fielded[event.side].push(event.code);
+    if (event.type === "cardDrawn" && event.code) result.drawn[event.code] = (result.drawn[event.code] ?? 0) + 1;
+    if (event.type === "cardPlayed") result.played[event.code] = (result.played[event.code] ?? 0) + 1;
+  }
+  return result;
+}
+
+/* ========================= Summary ========================= */
+const ratio = (a: number, b: number) => (b ? Math.round((a / b) * 1000) / 1000 : 0);
+
+function summarize(games: GameResult[]) {
+  const finished = games.filter((g) => g.winner);
+  const wins = { p1: 0, p2: 0 };
+  const reasons: Partial<Record<MatchEndReason, number>> = {};
+  let firstWins = 0;
+  const chars: Record<string, { games: number; wins: number }> = {};
+  const cards: Record<string, { drawn: number; played: number }> = {};
+
+  for (const g of games) {
+    if (g.winner) {
+      wins[g.winner] += 1;
+      reasons[g.reason!] = (reasons[g.reason!] ?? 0) + 1;
+      if (g.winner === g.first) firstWins += 1;
+    }
+    for (const side of SIDES) {
+      for (const code of new Set(g.fielded[side])) {
+        const c = (chars[code] ??= { games: 0, wins: 0 });
+        c.games += 1;
+        if (g.winner === side) c.wins += 1;
+      }
+    }
+    for (const [code, n] of Object.entries(g.drawn)) (cards[code] ??= { drawn: 0, played: 0 }).drawn += n;
+    for (const [code, n] of Object.entries(g.played)) (cards[code] ??= { drawn: 0, played: 0 }).played += n;
+  }
+
+  const avg = (pick: (g: GameResult) => number) =>
+    finished.length ? Math.round((finished.reduce((a, g) => a + pick(g), 0) / finished.length) * 10) / 10 : 0;
+
+  return {
+    games: games.length,
+    unfinished: games.length - finished.length,
+    winRate: { p1: ratio(wins.p1, finished.length), p2: ratio(wins.p2, finished.length) },
+    firstPlayerWinRate: ratio(firstWins, finished.length),
+    reasons,
+    avgPhases: avg((g) => g.phases),
+    avgActions: avg((g) => g.actions),
+    characters: Object.fromEntries(
+      Object.entries(chars)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([code, c]) => [code, { ...c, winRate: ratio(c.wins, c.games) }])
+    ),
+    /** playRate: cards played per card drawn (opening hands included) */
+    cards: Object.fromEntries(
+      Object.entries(cards)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([code, c]) => [code, { ...c, playRate: ratio(c.played, c.drawn) }])
+    ),
+  };
+}
+
+/* ========================= Output ========================= */
+function table(head: string[], rows: (string | number)[][]): string {
+  const cells = [head, ...rows.map((r) => r.map(String))];
+  const width = head.map((_, i) => Math.max(...cells.map((r) => r[i].length)));
+  const line = (r: string[]) => r.map((c, i) => (i ? c.padStart(width[i]) : c.padEnd(width[i]))).join("  ");
+  return [line(head), width.map((w) => "-".repeat(w)).join("  "), ...cells.slice(1).map(line)].join("\n");
+}
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+function printReport(s: ReturnType<typeof summarize>) {
+  console.log(`Games: ${s.games} (unfinished ${s.unfinished})`);
+  console.log(`Win rate: p1 ${pct(s.winRate.p1)} · p2 ${pct(s.winRate.p2)} · first player ${pct(s.firstPlayerWinRate)}`);
+  console.log(`Average length: ${s.avgPhases} phases, ${s.avgActions} actions`);
+  console.log(`End reasons: ${Object.entries(s.reasons).map(([r, n]) => `${r} ${n}`).join(" · ")}\n`);
+  console.log(
+    table(
+      ["Character", "Games", "Wins", "Win rate"],
+      Object.entries(s.characters).map(([code, c]) => [code, c.games, c.wins, pct(c.winRate)])
+    )
+  );
+  console.log();
+  console.log(
+    table(
+      ["Card", "Drawn", "Played", "Play rate"],
+      Object.entries(s.cards).map(([code, c]) => [code, c.drawn, c.played, pct(c.playRate)])
+    )
+  );
+}
+
+/* ========================= Main ========================= */
+function main() {
+  const games = intArg("games", 1000);
+  const seed = intArg("seed", 1);
+  const maxActions = intArg("max-actions", 2000);
+  const decks = decksFromArgs();
+
+  const results: GameResult[] = [];
+  for (let i = 0; i < games; i++) results.push(playGame(seed + i, decks, maxActions));
+  const summary = summarize(results);
+
+  const out = arg("out");
+  if (out) fs.writeFileSync(path.resolve(process.cwd(), out), JSON.stringify({ seed, decks, ...summary }, null, 2));
+  if (arg("json") != null) console.log(JSON.stringify({ seed, decks, ...summary }, null, 2));
+  else printReport(summary);
+}
+
+main();